@@ -8,10 +8,38 @@
  * @module
  */
 
+import type * as aliases from "../aliases.js";
+import type * as boards from "../boards.js";
 import type * as canvas from "../canvas.js";
 import type * as conversations from "../conversations.js";
+import type * as crons from "../crons.js";
+import type * as embeddingMigrations from "../embeddingMigrations.js";
 import type * as embeddings from "../embeddings.js";
+import type * as lib_aliases from "../lib/aliases.js";
+import type * as lib_boards from "../lib/boards.js";
+import type * as lib_chunks from "../lib/chunks.js";
+import type * as lib_edges from "../lib/edges.js";
+import type * as lib_embeddings from "../lib/embeddings.js";
+import type * as lib_mentions from "../lib/mentions.js";
+import type * as lib_nodes from "../lib/nodes.js";
+import type * as lib_notes from "../lib/notes.js";
+import type * as lib_properties from "../lib/properties.js";
+import type * as lib_retrieval from "../lib/retrieval.js";
+import type * as lib_revisions from "../lib/revisions.js";
+import type * as lib_search from "../lib/search.js";
+import type * as lib_tableViews from "../lib/tableViews.js";
+import type * as lib_tags from "../lib/tags.js";
+import type * as lib_trash from "../lib/trash.js";
+import type * as links from "../links.js";
 import type * as messages from "../messages.js";
+import type * as migrations from "../migrations.js";
+import type * as properties from "../properties.js";
+import type * as retrieval from "../retrieval.js";
+import type * as revisions from "../revisions.js";
+import type * as search from "../search.js";
+import type * as tableViews from "../tableViews.js";
+import type * as tags from "../tags.js";
+import type * as trash from "../trash.js";
 import type * as voiceNotes from "../voiceNotes.js";
 
 import type {
@@ -21,10 +49,38 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  aliases: typeof aliases;
+  boards: typeof boards;
   canvas: typeof canvas;
   conversations: typeof conversations;
+  crons: typeof crons;
+  embeddingMigrations: typeof embeddingMigrations;
   embeddings: typeof embeddings;
+  "lib/aliases": typeof lib_aliases;
+  "lib/boards": typeof lib_boards;
+  "lib/chunks": typeof lib_chunks;
+  "lib/edges": typeof lib_edges;
+  "lib/embeddings": typeof lib_embeddings;
+  "lib/mentions": typeof lib_mentions;
+  "lib/nodes": typeof lib_nodes;
+  "lib/notes": typeof lib_notes;
+  "lib/properties": typeof lib_properties;
+  "lib/retrieval": typeof lib_retrieval;
+  "lib/revisions": typeof lib_revisions;
+  "lib/search": typeof lib_search;
+  "lib/tableViews": typeof lib_tableViews;
+  "lib/tags": typeof lib_tags;
+  "lib/trash": typeof lib_trash;
+  links: typeof links;
   messages: typeof messages;
+  migrations: typeof migrations;
+  properties: typeof properties;
+  retrieval: typeof retrieval;
+  revisions: typeof revisions;
+  search: typeof search;
+  tableViews: typeof tableViews;
+  tags: typeof tags;
+  trash: typeof trash;
   voiceNotes: typeof voiceNotes;
 }>;
 
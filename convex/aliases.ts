@@ -0,0 +1,82 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { addAlias, getNodeAliases } from "./lib/aliases";
+import { normalizeTitle } from "./lib/notes";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+// All of the user's aliases with the title of the note each one points to
+export const listAliases = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const aliases = await ctx.db
+      .query("noteAliases")
+      .withIndex("by_user_alias", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    const withNotes = await Promise.all(
+      aliases.map(async (alias) => {
+        const node = await ctx.db.get(alias.nodeId);
+        if (!node || node.deletedAt) return null;
+        return {
+          _id: alias._id,
+          alias: alias.alias,
+          nodeId: alias.nodeId,
+          noteTitle: node.title ?? "Untitled",
+        };
+      })
+    );
+
+    return withNotes.filter((alias) => alias !== null);
+  },
+});
+
+export const getAliases = query({
+  args: { nodeId: v.id("canvasNodes") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.userId !== identity.subject) return [];
+
+    const aliases = await getNodeAliases(ctx, args.nodeId);
+    return aliases.map((alias) => alias.alias);
+  },
+});
+
+// Replace a note's aliases
+export const setAliases = mutation({
+  args: { nodeId: v.id("canvasNodes"), aliases: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    // The note's own title is not an alias
+    const wanted = new Set(
+      args.aliases
+        .map(normalizeTitle)
+        .filter((alias) => alias && alias !== node.normalizedTitle)
+    );
+
+    const existing = await getNodeAliases(ctx, args.nodeId);
+    for (const alias of existing) {
+      if (!wanted.has(alias.normalizedAlias)) {
+        await ctx.db.delete(alias._id);
+      }
+    }
+
+    for (const alias of args.aliases) {
+      if (wanted.has(normalizeTitle(alias))) {
+        await addAlias(ctx, identity.subject, args.nodeId, alias);
+      }
+    }
+  },
+});
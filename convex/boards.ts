@@ -0,0 +1,259 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { ensureDefaultBoard, placeNode } from "./lib/boards";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+async function getOwnedBoard(
+  ctx: QueryCtx | MutationCtx,
+  userId: string,
+  boardId: Id<"boards">
+) {
+  const board = await ctx.db.get(boardId);
+  if (!board || board.userId !== userId) {
+    throw new Error("Not found");
+  }
+  return board;
+}
+
+async function getPlacement(
+  ctx: QueryCtx | MutationCtx,
+  boardId: Id<"boards">,
+  nodeId: Id<"canvasNodes">
+) {
+  return await ctx.db
+    .query("boardNodes")
+    .withIndex("by_board_node", (q) =>
+      q.eq("boardId", boardId).eq("nodeId", nodeId)
+    )
+    .first();
+}
+
+// List boards, default board first
+export const listBoards = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const boards = await ctx.db
+      .query("boards")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    return boards.sort(
+      (a, b) =>
+        Number(b.isDefault ?? false) - Number(a.isDefault ?? false) ||
+        a.createdAt - b.createdAt
+    );
+  },
+});
+
+// Make sure the user has a default board (created from the old global canvas)
+export const getOrCreateDefaultBoard = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+    return await ensureDefaultBoard(ctx, identity.subject);
+  },
+});
+
+export const createBoard = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const name = args.name.trim();
+    if (!name) throw new Error("Board name is required");
+
+    // Creating a board before the default one exists would leave old nodes unplaced
+    await ensureDefaultBoard(ctx, identity.subject);
+
+    const now = Date.now();
+    return await ctx.db.insert("boards", {
+      userId: identity.subject,
+      name,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const renameBoard = mutation({
+  args: { id: v.id("boards"), name: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    await getOwnedBoard(ctx, identity.subject, args.id);
+    const name = args.name.trim();
+    if (!name) throw new Error("Board name is required");
+
+    await ctx.db.patch(args.id, { name, updatedAt: Date.now() });
+  },
+});
+
+// Delete a board and its placements. The nodes themselves are kept.
+export const deleteBoard = mutation({
+  args: { id: v.id("boards") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const board = await getOwnedBoard(ctx, identity.subject, args.id);
+    if (board.isDefault) {
+      throw new Error("The default board cannot be deleted");
+    }
+
+    const placements = await ctx.db
+      .query("boardNodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.id))
+      .collect();
+    for (const placement of placements) {
+      await ctx.db.delete(placement._id);
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Nodes on a board with their board-specific position and size
+export const listBoardNodes = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    await getOwnedBoard(ctx, identity.subject, args.boardId);
+
+    const placements = await ctx.db
+      .query("boardNodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    const nodes = await Promise.all(
+      placements.map(async (placement) => {
+        const node = await ctx.db.get(placement.nodeId);
+        if (!node || node.deletedAt) return null;
+        return {
+          ...node,
+          x: placement.x,
+          y: placement.y,
+          width: placement.width ?? node.width,
+          height: placement.height ?? node.height,
+        };
+      })
+    );
+
+    return nodes.filter((node) => node !== null);
+  },
+});
+
+// Edges between nodes that are both on the board
+export const listBoardEdges = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    await getOwnedBoard(ctx, identity.subject, args.boardId);
+
+    const placements = await ctx.db
+      .query("boardNodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const nodeIds = new Set(placements.map((p) => p.nodeId));
+
+    const edgeLists = await Promise.all(
+      placements.map((placement) =>
+        ctx.db
+          .query("canvasEdges")
+          .withIndex("by_source", (q) => q.eq("source", placement.nodeId))
+          .collect()
+      )
+    );
+
+    const edges = edgeLists.flat().filter((edge) => nodeIds.has(edge.target));
+
+    // Hide edges touching trashed nodes
+    const visible = await Promise.all(
+      edges.map(async (edge) => {
+        const [source, target] = await Promise.all([
+          ctx.db.get(edge.source),
+          ctx.db.get(edge.target),
+        ]);
+        return source && target && !source.deletedAt && !target.deletedAt
+          ? edge
+          : null;
+      })
+    );
+
+    return visible.filter((edge) => edge !== null);
+  },
+});
+
+// Put an existing node on a board
+export const addNodeToBoard = mutation({
+  args: {
+    boardId: v.id("boards"),
+    nodeId: v.id("canvasNodes"),
+    x: v.number(),
+    y: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    await getOwnedBoard(ctx, identity.subject, args.boardId);
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    await placeNode(
+      ctx,
+      identity.subject,
+      args.nodeId,
+      { x: args.x, y: args.y },
+      args.boardId
+    );
+  },
+});
+
+// Move or resize a node on one board without affecting its other placements
+export const updatePlacement = mutation({
+  args: {
+    boardId: v.id("boards"),
+    nodeId: v.id("canvasNodes"),
+    x: v.optional(v.number()),
+    y: v.optional(v.number()),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    await getOwnedBoard(ctx, identity.subject, args.boardId);
+
+    const placement = await getPlacement(ctx, args.boardId, args.nodeId);
+    if (!placement) throw new Error("Not found");
+
+    const updates = {
+      x: args.x,
+      y: args.y,
+      width: args.width,
+      height: args.height,
+    };
+    const filteredUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, v]) => v !== undefined)
+    );
+
+    await ctx.db.patch(placement._id, filteredUpdates);
+  },
+});
+
+// Take a node off a board. The node stays in the notes list and on other boards.
+export const removeNodeFromBoard = mutation({
+  args: { boardId: v.id("boards"), nodeId: v.id("canvasNodes") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    await getOwnedBoard(ctx, identity.subject, args.boardId);
+
+    const placement = await getPlacement(ctx, args.boardId, args.nodeId);
+    if (placement) {
+      await ctx.db.delete(placement._id);
+    }
+  },
+});
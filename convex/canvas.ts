@@ -1,5 +1,28 @@
 import { v } from "convex/values";
 import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { addNodeTags, moveNodeTags, syncInlineTags } from "./lib/tags";
+import { snapshotRevision } from "./lib/revisions";
+import { moveNodePlacements, placeNode } from "./lib/boards";
+import { edgeKind, findMatchingEdges, moveNodeEdges } from "./lib/edges";
+import {
+  addAlias,
+  getNodeAliases,
+  moveNodeAliases,
+  resolveNoteTitle,
+} from "./lib/aliases";
+import { moveNodeProperties } from "./lib/properties";
+import { nodeSourceType, nodeType } from "./lib/nodes";
+import { searchFields } from "./lib/search";
+import {
+  extractNoteTitle,
+  extractWikiLinkRefs,
+  extractWikiLinksFromContent,
+  normalizeTitle,
+  replaceNoteTitle,
+  rewriteWikiLinks,
+  titleFields,
+} from "./lib/notes";
 
 // Helper to get authenticated user
 async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
@@ -12,9 +35,12 @@ export const listNodes = query({
   args: {},
   handler: async (ctx) => {
     const identity = await getAuthenticatedUser(ctx);
+    // Nodes in the trash are hidden everywhere except the Trash view
     return await ctx.db
       .query("canvasNodes")
-      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).eq("deletedAt", undefined)
+      )
       .collect();
   },
 });
@@ -24,38 +50,56 @@ export const getNodeById = query({
   handler: async (ctx, args) => {
     const identity = await getAuthenticatedUser(ctx);
     const node = await ctx.db.get(args.id);
-    if (!node || node.userId !== identity.subject) {
+    if (!node || node.userId !== identity.subject || node.deletedAt) {
       return null;
     }
     return node;
   },
 });
 
+// Load an edge owned by the user. Edges created before edges had a userId fall
+// back to the owner of their source node until the backfill migration has run.
+async function getOwnedEdge(
+  ctx: QueryCtx | MutationCtx,
+  userId: string,
+  edgeId: Id<"canvasEdges">
+) {
+  const edge = await ctx.db.get(edgeId);
+  if (!edge) throw new Error("Not found");
+
+  const ownerId = edge.userId ?? (await ctx.db.get(edge.source))?.userId;
+  if (ownerId !== userId) throw new Error("Not found");
+
+  return edge;
+}
+
 export const listEdges = query({
   args: {},
   handler: async (ctx) => {
     const identity = await getAuthenticatedUser(ctx);
-    // Get user's nodes first, then filter edges
-    const userNodes = await ctx.db
-      .query("canvasNodes")
+    const edges = await ctx.db
+      .query("canvasEdges")
       .withIndex("by_user", (q) => q.eq("userId", identity.subject))
       .collect();
-    const userNodeIds = new Set(userNodes.map((n) => n._id));
 
-    const allEdges = await ctx.db.query("canvasEdges").collect();
-    return allEdges.filter(
-      (edge) => userNodeIds.has(edge.source) && userNodeIds.has(edge.target)
+    // Edges of trashed nodes are kept (for restore) but hidden
+    const trashedNodes = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).gt("deletedAt", 0)
+      )
+      .collect();
+    const trashedIds = new Set(trashedNodes.map((n) => n._id));
+
+    return edges.filter(
+      (edge) => !trashedIds.has(edge.source) && !trashedIds.has(edge.target)
     );
   },
 });
 
 export const createNode = mutation({
   args: {
-    type: v.union(
-      v.literal("text"),
-      v.literal("chat_reference"),
-      v.literal("note")
-    ),
+    type: nodeType,
     content: v.string(),
     x: v.number(),
     y: v.number(),
@@ -64,29 +108,30 @@ export const createNode = mutation({
     messageId: v.optional(v.id("messages")),
     conversationId: v.optional(v.id("conversations")),
     // Zettelkasten source tracking
-    sourceType: v.optional(
-      v.union(
-        v.literal("manual"),
-        v.literal("voice"),
-        v.literal("chat"),
-        v.literal("ai_extracted"),
-        v.literal("web"),
-        v.literal("youtube"),
-        v.literal("readwise")
-      )
-    ),
+    sourceType: v.optional(nodeSourceType),
     sourceId: v.optional(v.id("voiceNotes")),
     sourceUrl: v.optional(v.string()),
     parentNodeId: v.optional(v.id("canvasNodes")),
     outgoingLinks: v.optional(v.array(v.string())),
+    // Board to place the node on (defaults to the user's default board)
+    boardId: v.optional(v.id("boards")),
   },
   handler: async (ctx, args) => {
     const identity = await getAuthenticatedUser(ctx);
+    if (args.boardId) {
+      const board = await ctx.db.get(args.boardId);
+      if (!board || board.userId !== identity.subject) {
+        throw new Error("Not found");
+      }
+    }
+
     const now = Date.now();
-    return await ctx.db.insert("canvasNodes", {
+    const nodeId = await ctx.db.insert("canvasNodes", {
       userId: identity.subject,
       type: args.type,
       content: args.content,
+      ...titleFields(args.content),
+      ...searchFields(args.content),
       x: args.x,
       y: args.y,
       width: args.width ?? 300,
@@ -101,6 +146,19 @@ export const createNode = mutation({
       createdAt: now,
       updatedAt: now,
     });
+
+    await placeNode(
+      ctx,
+      identity.subject,
+      nodeId,
+      { x: args.x, y: args.y, width: args.width, height: args.height },
+      args.boardId
+    );
+
+    // Pick up any #tags written in the initial content
+    await syncInlineTags(ctx, identity.subject, nodeId, args.content);
+
+    return nodeId;
   },
 });
 
@@ -121,6 +179,11 @@ export const updateNode = mutation({
       throw new Error("Not found");
     }
 
+    // Keep a revision of the previous content before overwriting it
+    if (args.content !== undefined && args.content !== node.content) {
+      await snapshotRevision(ctx, node, "edit", args.content);
+    }
+
     const { id, ...updates } = args;
     const filteredUpdates = Object.fromEntries(
       Object.entries(updates).filter(([, v]) => v !== undefined)
@@ -128,8 +191,16 @@ export const updateNode = mutation({
 
     await ctx.db.patch(id, {
       ...filteredUpdates,
+      // Keep the stored title and search text in sync with the content
+      ...(args.content !== undefined
+        ? { ...titleFields(args.content), ...searchFields(args.content) }
+        : {}),
       updatedAt: Date.now(),
     });
+
+    if (args.content !== undefined) {
+      await syncInlineTags(ctx, identity.subject, id, args.content);
+    }
   },
 });
 
@@ -151,6 +222,8 @@ export const updateNodeEmbedding = mutation({
   },
 });
 
+// Move a node to the trash. Its edges, tags and revisions are kept so it can be
+// restored; the purge job deletes it for good after 30 days.
 export const deleteNode = mutation({
   args: { id: v.id("canvasNodes") },
   handler: async (ctx, args) => {
@@ -160,22 +233,7 @@ export const deleteNode = mutation({
       throw new Error("Not found");
     }
 
-    // Delete connected edges
-    const sourceEdges = await ctx.db
-      .query("canvasEdges")
-      .withIndex("by_source", (q) => q.eq("source", args.id))
-      .collect();
-
-    const targetEdges = await ctx.db
-      .query("canvasEdges")
-      .withIndex("by_target", (q) => q.eq("target", args.id))
-      .collect();
-
-    for (const edge of [...sourceEdges, ...targetEdges]) {
-      await ctx.db.delete(edge._id);
-    }
-
-    await ctx.db.delete(args.id);
+    await ctx.db.patch(args.id, { deletedAt: Date.now() });
   },
 });
 
@@ -184,6 +242,8 @@ export const createEdge = mutation({
     source: v.id("canvasNodes"),
     target: v.id("canvasNodes"),
     label: v.optional(v.string()),
+    kind: v.optional(edgeKind),
+    score: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const identity = await getAuthenticatedUser(ctx);
@@ -200,28 +260,57 @@ export const createEdge = mutation({
       throw new Error("Not found");
     }
 
+    // Idempotent on (source, target, kind): refresh the existing edge instead of
+    // adding a parallel duplicate
+    const [existing] = await findMatchingEdges(
+      ctx,
+      args.source,
+      args.target,
+      args.kind
+    );
+    if (existing) {
+      const updates = { score: args.score, label: args.label };
+      await ctx.db.patch(
+        existing._id,
+        Object.fromEntries(
+          Object.entries(updates).filter(([, v]) => v !== undefined)
+        )
+      );
+      return existing._id;
+    }
+
     return await ctx.db.insert("canvasEdges", {
+      userId: identity.subject,
       source: args.source,
       target: args.target,
       label: args.label,
+      kind: args.kind,
+      score: args.score,
       createdAt: Date.now(),
     });
   },
 });
 
-export const deleteEdge = mutation({
-  args: { id: v.id("canvasEdges") },
+// Change the relationship type (or label) of an existing edge
+export const updateEdge = mutation({
+  args: {
+    id: v.id("canvasEdges"),
+    kind: v.optional(edgeKind),
+    label: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
     const identity = await getAuthenticatedUser(ctx);
+    await getOwnedEdge(ctx, identity.subject, args.id);
 
-    const edge = await ctx.db.get(args.id);
-    if (!edge) throw new Error("Not found");
+    await ctx.db.patch(args.id, { kind: args.kind, label: args.label });
+  },
+});
 
-    // Verify edge belongs to user's nodes
-    const sourceNode = await ctx.db.get(edge.source);
-    if (!sourceNode || sourceNode.userId !== identity.subject) {
-      throw new Error("Not found");
-    }
+export const deleteEdge = mutation({
+  args: { id: v.id("canvasEdges") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    await getOwnedEdge(ctx, identity.subject, args.id);
 
     await ctx.db.delete(args.id);
   },
@@ -249,8 +338,13 @@ export const getBacklinks = query({
     const sourceNodes = await Promise.all(
       incomingEdges.map(async (edge) => {
         const node = await ctx.db.get(edge.source);
-        if (node && node.userId === identity.subject) {
-          return { ...node, edgeLabel: edge.label };
+        if (node && node.userId === identity.subject && !node.deletedAt) {
+          return {
+            ...node,
+            edgeLabel: edge.label,
+            edgeKind: edge.kind,
+            edgeScore: edge.score,
+          };
         }
         return null;
       })
@@ -271,8 +365,28 @@ export const getNodesByVoiceNote = query({
       .withIndex("by_sourceId", (q) => q.eq("sourceId", args.voiceNoteId))
       .collect();
 
-    // Filter to only user's nodes
-    return nodes.filter((node) => node.userId === identity.subject);
+    // Filter to only user's nodes that aren't in the trash
+    return nodes.filter(
+      (node) => node.userId === identity.subject && !node.deletedAt
+    );
+  },
+});
+
+// Source URLs already imported from a source, so re-imports skip them. Trashed
+// notes count, so a deleted import doesn't come back.
+export const getImportedSourceUrls = query({
+  args: { sourceType: nodeSourceType },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const nodes = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    return nodes
+      .filter((node) => node.sourceType === args.sourceType && node.sourceUrl)
+      .map((node) => node.sourceUrl!);
   },
 });
 
@@ -284,7 +398,9 @@ export const listNotes = query({
 
     const nodes = await ctx.db
       .query("canvasNodes")
-      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).eq("deletedAt", undefined)
+      )
       .collect();
 
     return nodes
@@ -301,76 +417,28 @@ export const findNoteByTitle = query({
 
     if (!args.title) return null;
 
-    const nodes = await ctx.db
-      .query("canvasNodes")
-      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
-      .collect();
-
-    const notes = nodes.filter((n) => n.type === "note");
-
-    // Find note where title matches (first line or # heading)
-    return (
-      notes.find((note) => {
-        const firstLine = note.content.split("\n")[0];
-        // Handle both plain text and HTML content
-        const cleanLine = firstLine.replace(/<[^>]*>/g, ""); // Remove HTML tags
-        const noteTitle = cleanLine.replace(/^#\s*/, "").trim();
-        return noteTitle.toLowerCase() === args.title.toLowerCase();
-      }) || null
-    );
+    // Matches the note's title or one of its aliases
+    return await resolveNoteTitle(ctx, identity.subject, args.title);
   },
 });
 
-// Helper to extract title from note content
-function extractNoteTitle(content: string): string {
-  const firstLine = content.split("\n")[0];
-  const cleanLine = firstLine.replace(/<[^>]*>/g, ""); // Remove HTML tags
-  return cleanLine.replace(/^#\s*/, "").trim() || "Untitled";
-}
-
-// Helper to extract wiki links from content (handles both raw [[text]] and HTML data-title)
-function extractWikiLinksFromContent(content: string): string[] {
-  const links: string[] = [];
-
-  // Extract from raw [[text]] patterns
-  const rawRegex = /\[\[([^\]]+)\]\]/g;
-  let match;
-  while ((match = rawRegex.exec(content)) !== null) {
-    links.push(match[1].toLowerCase());
-  }
-
-  // Also extract from HTML data-title attributes (TipTap saves as HTML)
-  const htmlRegex = /data-title="([^"]+)"/g;
-  while ((match = htmlRegex.exec(content)) !== null) {
-    const title = match[1].toLowerCase();
-    if (!links.includes(title)) {
-      links.push(title);
-    }
-  }
-
-  return links;
-}
-
 // Find today's daily note (if it exists)
 export const findDailyNote = query({
   args: { dateString: v.string() }, // Format: "YYYY-MM-DD"
   handler: async (ctx, args) => {
     const identity = await getAuthenticatedUser(ctx);
 
-    const nodes = await ctx.db
+    // Look for a note with title matching the date
+    const matches = await ctx.db
       .query("canvasNodes")
-      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .withIndex("by_user_title", (q) =>
+        q
+          .eq("userId", identity.subject)
+          .eq("normalizedTitle", normalizeTitle(args.dateString))
+      )
       .collect();
 
-    const notes = nodes.filter((n) => n.type === "note");
-
-    // Look for a note with title matching the date
-    return (
-      notes.find((note) => {
-        const title = extractNoteTitle(note.content);
-        return title === args.dateString;
-      }) || null
-    );
+    return matches.find((n) => n.type === "note" && !n.deletedAt) || null;
   },
 });
 
@@ -392,10 +460,12 @@ export const createDailyNote = mutation({
     // Use HTML format for TipTap editor
     const content = `<h1>${args.dateString}</h1><h2>${dayName}, ${monthDay}</h2><h3>Morning</h3><ul><li><p></p></li></ul><h3>Tasks</h3><ul data-type="taskList"><li data-type="taskItem" data-checked="false"><label><input type="checkbox"><span></span></label><div><p></p></div></li></ul><h3>Notes</h3><p></p><h3>Evening Reflection</h3><p></p>`;
 
-    return await ctx.db.insert("canvasNodes", {
+    const nodeId = await ctx.db.insert("canvasNodes", {
       userId: identity.subject,
       type: "note",
       content,
+      ...titleFields(content),
+      ...searchFields(content),
       x: 0,
       y: 0,
       width: 300,
@@ -404,6 +474,10 @@ export const createDailyNote = mutation({
       createdAt: now,
       updatedAt: now,
     });
+
+    await placeNode(ctx, identity.subject, nodeId, { x: 0, y: 0 });
+
+    return nodeId;
   },
 });
 
@@ -417,30 +491,298 @@ export const getWikiLinkBacklinks = query({
 
     const nodes = await ctx.db
       .query("canvasNodes")
-      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).eq("deletedAt", undefined)
+      )
       .collect();
 
     const notes = nodes.filter((n) => n.type === "note");
-    const targetTitle = args.noteTitle.toLowerCase();
+
+    // Links may use the note's title or any of its aliases
+    const target = await resolveNoteTitle(ctx, identity.subject, args.noteTitle);
+    const aliases = target ? await getNodeAliases(ctx, target._id) : [];
+    const targetTitles = new Set([
+      normalizeTitle(args.noteTitle),
+      ...aliases.map((alias) => alias.normalizedAlias),
+    ]);
 
     // Find notes that have this title in their outgoingLinks OR in their content
     const backlinks = notes.filter((note) => {
       // Check outgoingLinks array first (if populated)
       if (
-        note.outgoingLinks?.some((link) => link.toLowerCase() === targetTitle)
+        note.outgoingLinks?.some((link) => targetTitles.has(normalizeTitle(link)))
       ) {
         return true;
       }
 
       // Also check content directly (fallback for notes saved before outgoingLinks was added)
       const contentLinks = extractWikiLinksFromContent(note.content);
-      return contentLinks.includes(targetTitle);
+      return contentLinks.some((link) => targetTitles.has(normalizeTitle(link)));
     });
 
-    // Return with extracted titles for display
+    // Return with titles for display (rows saved before titles were stored fall back to parsing)
     return backlinks.map((note) => ({
       ...note,
-      title: extractNoteTitle(note.content),
+      title: note.title ?? extractNoteTitle(note.content),
+      // Headings and blocks of this note the backlink points at
+      references: extractWikiLinkRefs(note.content)
+        .filter((ref) => targetTitles.has(normalizeTitle(ref.title)))
+        .flatMap((ref) =>
+          ref.heading ? [`#${ref.heading}`] : ref.block ? [`^${ref.block}`] : []
+        ),
     }));
   },
 });
+
+// Point every [[oldTitle]] link in the user's notes at newTitle. Returns the
+// number of notes changed.
+async function rewriteLinksToTitle(
+  ctx: MutationCtx,
+  userId: string,
+  oldTitle: string,
+  newTitle: string,
+  skipId: Id<"canvasNodes">,
+  reason: "rename" | "merge"
+) {
+  const oldKey = normalizeTitle(oldTitle);
+  const nodes = await ctx.db
+    .query("canvasNodes")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  let updatedNotes = 0;
+  for (const other of nodes) {
+    if (other._id === skipId) continue;
+
+    const linksToNote =
+      other.outgoingLinks?.some((link) => normalizeTitle(link) === oldKey) ||
+      extractWikiLinksFromContent(other.content).some(
+        (link) => normalizeTitle(link) === oldKey
+      );
+    if (!linksToNote) continue;
+
+    await snapshotRevision(ctx, other, reason);
+    const content = rewriteWikiLinks(other.content, oldTitle, newTitle);
+    await ctx.db.patch(other._id, {
+      content,
+      ...titleFields(content),
+      ...searchFields(content),
+      outgoingLinks: other.outgoingLinks?.map((link) =>
+        normalizeTitle(link) === oldKey ? newTitle : link
+      ),
+      updatedAt: Date.now(),
+    });
+    updatedNotes++;
+  }
+
+  return updatedNotes;
+}
+
+// Rename a note and rewrite every wiki link that points at its old title
+export const renameNote = mutation({
+  args: {
+    id: v.id("canvasNodes"),
+    title: v.string(),
+    // Title other notes currently link to (defaults to the stored title)
+    previousTitle: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const node = await ctx.db.get(args.id);
+    if (!node || node.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    const newTitle = args.title.replace(/\s+/g, " ").trim();
+    if (!newTitle) throw new Error("Title is required");
+
+    const oldTitle =
+      args.previousTitle ?? node.title ?? extractNoteTitle(node.content);
+    const now = Date.now();
+
+    // Update the note's own heading unless the editor already did
+    if (extractNoteTitle(node.content) !== newTitle) {
+      await snapshotRevision(ctx, node, "rename");
+      const content = replaceNoteTitle(node.content, newTitle);
+      await ctx.db.patch(args.id, {
+        content,
+        ...titleFields(content),
+        ...searchFields(content),
+        updatedAt: now,
+      });
+    }
+
+    if (oldTitle === newTitle) return { updatedNotes: 0 };
+
+    const updatedNotes = await rewriteLinksToTitle(
+      ctx,
+      identity.subject,
+      oldTitle,
+      newTitle,
+      args.id,
+      "rename"
+    );
+
+    return { updatedNotes };
+  },
+});
+
+// Split a note into atomic child notes (proposed by concept extraction and
+// reviewed by the user). Each child links back to the parent with a wiki link.
+// Returns the children with their stored content, for embedding.
+export const atomizeNote = mutation({
+  args: {
+    parentId: v.id("canvasNodes"),
+    concepts: v.array(
+      v.object({
+        title: v.string(),
+        content: v.string(),
+        suggestedLinks: v.optional(v.array(v.string())),
+        tags: v.optional(v.array(v.string())),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const parent = await ctx.db.get(args.parentId);
+    if (!parent || parent.userId !== identity.subject || parent.deletedAt) {
+      throw new Error("Not found");
+    }
+
+    const parentTitle = parent.title ?? extractNoteTitle(parent.content);
+    const now = Date.now();
+    const children = [];
+
+    for (const [i, concept] of args.concepts.entries()) {
+      // Same markdown shape as concepts extracted from voice notes
+      const links = [parentTitle, ...(concept.suggestedLinks ?? [])]
+        .filter((link, j, all) => all.indexOf(link) === j)
+        .map((link) => `[[${link}]]`)
+        .join(" ");
+      const content = `# ${concept.title}\n\n${concept.content}\n\n${links}`;
+
+      const x = parent.x + i * 350;
+      const y = parent.y + 250;
+      const childId = await ctx.db.insert("canvasNodes", {
+        userId: identity.subject,
+        type: "note",
+        content,
+        ...titleFields(content),
+        ...searchFields(content),
+        x,
+        y,
+        width: parent.width,
+        height: parent.height,
+        sourceType: "ai_extracted",
+        parentNodeId: args.parentId,
+        outgoingLinks: extractWikiLinksFromContent(content),
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      await placeNode(ctx, identity.subject, childId, { x, y });
+      if (concept.tags?.length) {
+        await addNodeTags(ctx, identity.subject, childId, concept.tags, "extracted");
+      }
+
+      children.push({ _id: childId, content });
+    }
+
+    return children;
+  },
+});
+
+// Atomic notes split from a note
+export const getChildNotes = query({
+  args: { parentId: v.id("canvasNodes") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const children = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_parentNodeId", (q) => q.eq("parentNodeId", args.parentId))
+      .collect();
+
+    return children.filter(
+      (child) => child.userId === identity.subject && !child.deletedAt
+    );
+  },
+});
+
+// Merge two notes about the same idea. The winner gets the combined content
+// (built by the merge dialog) plus the loser's edges, tags, properties, board
+// placements, aliases and child notes; links to the loser are rewritten and its
+// title is kept as an alias of the winner. The loser goes to the trash.
+export const mergeNotes = mutation({
+  args: {
+    winnerId: v.id("canvasNodes"),
+    loserId: v.id("canvasNodes"),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    if (args.winnerId === args.loserId) {
+      throw new Error("Cannot merge a note into itself");
+    }
+
+    const winner = await ctx.db.get(args.winnerId);
+    const loser = await ctx.db.get(args.loserId);
+    if (
+      !winner ||
+      !loser ||
+      winner.userId !== identity.subject ||
+      loser.userId !== identity.subject ||
+      winner.deletedAt ||
+      loser.deletedAt
+    ) {
+      throw new Error("Not found");
+    }
+
+    const now = Date.now();
+
+    await snapshotRevision(ctx, winner, "merge", args.content);
+    await snapshotRevision(ctx, loser, "merge");
+    await ctx.db.patch(args.winnerId, {
+      content: args.content,
+      ...titleFields(args.content),
+      ...searchFields(args.content),
+      outgoingLinks: extractWikiLinksFromContent(args.content),
+      updatedAt: now,
+    });
+
+    await moveNodeEdges(ctx, args.loserId, args.winnerId);
+    await moveNodeTags(ctx, args.loserId, args.winnerId);
+    await moveNodeProperties(ctx, args.loserId, args.winnerId);
+    await syncInlineTags(ctx, identity.subject, args.winnerId, args.content);
+    await moveNodePlacements(ctx, args.loserId, args.winnerId);
+    await moveNodeAliases(ctx, args.loserId, args.winnerId);
+
+    const children = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_parentNodeId", (q) => q.eq("parentNodeId", args.loserId))
+      .collect();
+    for (const child of children) {
+      await ctx.db.patch(child._id, { parentNodeId: args.winnerId });
+    }
+
+    // Links to the loser now point at the winner
+    const winnerTitle = extractNoteTitle(args.content);
+    const loserTitle = loser.title ?? extractNoteTitle(loser.content);
+    let updatedNotes = 0;
+    if (normalizeTitle(loserTitle) !== normalizeTitle(winnerTitle)) {
+      updatedNotes = await rewriteLinksToTitle(
+        ctx,
+        identity.subject,
+        loserTitle,
+        winnerTitle,
+        args.loserId,
+        "merge"
+      );
+      await addAlias(ctx, identity.subject, args.winnerId, loserTitle);
+    }
+
+    await ctx.db.patch(args.loserId, { deletedAt: now });
+
+    return { updatedNotes };
+  },
+});
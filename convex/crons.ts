@@ -0,0 +1,21 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Delete nodes that have been in the trash for more than 30 days
+crons.daily(
+  "purge expired trash",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.trash.purgeExpired
+);
+
+// Embed nodes and messages whose embeddings are missing, stale or outdated
+crons.hourly(
+  "backfill embeddings",
+  { minuteUTC: 30 },
+  internal.embeddings.backfillEmbeddings,
+  {}
+);
+
+export default crons;
@@ -0,0 +1,402 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { chunkEmbeddingInput } from "./lib/chunks";
+import {
+  defaultEmbeddingSpec,
+  EMBEDDING_SLOT_DIMENSIONS,
+  EMBEDDING_SLOT_FIELDS,
+  embeddingModelId,
+  embeddingModelSpec,
+  embeddingRetryDelay,
+  EmbeddingModelSpec,
+  EmbeddingSlot,
+  embeddingSlot,
+  getEmbeddingProvider,
+  otherSlot,
+} from "./lib/embeddings";
+
+// Switching embedding models. To move to a new model:
+//   1. Set the idle slot's size in EMBEDDING_SLOT_DIMENSIONS and deploy
+//   2. npx convex run embeddingMigrations:startMigration \
+//        '{"model": {"provider": "openai", "model": "text-embedding-3-large"}}'
+// New content is embedded with both models while a background pass fills the
+// idle slot. Once a pass finds every chunk and message filled, search switches
+// to the new slot and the old vectors are dropped. Check progress with
+// embeddingMigrations:getMigrationStatus.
+
+const PAGE_SIZE = 50; // Rows per page; vectors of large models are big
+const PAGE_DELAY_MS = 1000;
+
+const vectorTable = v.union(v.literal("nodeChunks"), v.literal("messages"));
+const migratedTable = v.union(
+  v.literal("nodeChunks"),
+  v.literal("messages"),
+  v.literal("canvasNodes")
+);
+
+function modelIdFor(model: EmbeddingModelSpec, slot: EmbeddingSlot) {
+  return embeddingModelId(getEmbeddingProvider(model, EMBEDDING_SLOT_DIMENSIONS[slot]));
+}
+
+async function loadState(ctx: QueryCtx) {
+  return await ctx.db.query("embeddingState").first();
+}
+
+// The active model and slot, and the migration in progress if any
+export const getEmbeddingState = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const state = await loadState(ctx);
+    return {
+      activeSlot: state?.activeSlot ?? ("a" as const),
+      activeModel: state?.activeModel ?? defaultEmbeddingSpec(),
+      migration: state?.migration,
+    };
+  },
+});
+
+// Begin embedding everything with a new model in the idle slot
+export const startMigration = internalMutation({
+  args: { model: embeddingModelSpec },
+  handler: async (ctx, args) => {
+    const state = await loadState(ctx);
+    if (state?.migration) {
+      throw new Error("An embedding migration is already in progress");
+    }
+    const activeSlot = state?.activeSlot ?? "a";
+    const activeModel = state?.activeModel ?? defaultEmbeddingSpec();
+    const slot = otherSlot(activeSlot);
+
+    // Fails early on a bad configuration, e.g. a local model without a name
+    const modelId = modelIdFor(args.model, slot);
+    if (modelId === modelIdFor(activeModel, activeSlot)) {
+      throw new Error(`${modelId} is already the active model`);
+    }
+
+    const fields = {
+      activeSlot,
+      activeModel,
+      migration: {
+        slot,
+        model: args.model,
+        fromModel: activeModel,
+        phase: "embedding" as const,
+        startedAt: Date.now(),
+      },
+      updatedAt: Date.now(),
+    };
+    if (state) {
+      await ctx.db.patch(state._id, fields);
+    } else {
+      await ctx.db.insert("embeddingState", fields);
+    }
+
+    await ctx.scheduler.runAfter(0, internal.embeddingMigrations.fillSlot, {
+      table: "nodeChunks",
+      cursor: null,
+      filled: 0,
+    });
+  },
+});
+
+// A page of rows, with the text of those missing a vector in the slot
+async function readUnfilledPage(
+  ctx: QueryCtx,
+  table: "nodeChunks" | "messages",
+  cursor: string | null,
+  slot: EmbeddingSlot
+) {
+  const field = EMBEDDING_SLOT_FIELDS[slot];
+  const page = await ctx.db.query(table).paginate({ cursor, numItems: PAGE_SIZE });
+
+  const rows = page.page
+    .filter((row) => row[field] === undefined)
+    .map((row) => ({
+      _id: row._id,
+      text: "nodeId" in row ? chunkEmbeddingInput(row) : row.content,
+    }));
+
+  return {
+    rows,
+    total: page.page.length,
+    continueCursor: page.continueCursor,
+    isDone: page.isDone,
+  };
+}
+
+export const findUnfilled = internalQuery({
+  args: {
+    table: vectorTable,
+    cursor: v.union(v.string(), v.null()),
+    slot: embeddingSlot,
+  },
+  handler: async (ctx, args) => {
+    return await readUnfilledPage(ctx, args.table, args.cursor, args.slot);
+  },
+});
+
+export const setSlotVectors = internalMutation({
+  args: {
+    slot: embeddingSlot,
+    vectors: v.array(
+      v.object({
+        id: v.union(v.id("nodeChunks"), v.id("messages")),
+        embedding: v.array(v.float64()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const field = EMBEDDING_SLOT_FIELDS[args.slot];
+    for (const { id, embedding } of args.vectors) {
+      // Chunks can be replaced while the page was being embedded
+      if (await ctx.db.get(id)) {
+        await ctx.db.patch(id, { [field]: embedding });
+      }
+    }
+  },
+});
+
+/**
+ * Fill one page of the migration slot, then schedule the next page: chunks,
+ * then messages. A pass that fills nothing means coverage is complete, so the
+ * slot becomes active; otherwise another pass checks for rows added meanwhile.
+ * Failures retry the same page with growing delays.
+ */
+export const fillSlot = internalAction({
+  args: {
+    table: vectorTable,
+    cursor: v.union(v.string(), v.null()),
+    filled: v.number(), // Rows filled so far in this pass
+    attempts: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const state = await ctx.runQuery(internal.embeddingMigrations.getEmbeddingState, {});
+    const migration = state.migration;
+    if (migration?.phase !== "embedding") return;
+
+    const page = await ctx.runQuery(internal.embeddingMigrations.findUnfilled, {
+      table: args.table,
+      cursor: args.cursor,
+      slot: migration.slot,
+    });
+
+    if (page.rows.length > 0) {
+      const provider = getEmbeddingProvider(
+        migration.model,
+        EMBEDDING_SLOT_DIMENSIONS[migration.slot]
+      );
+      try {
+        const embeddings = await provider.embed(page.rows.map((row) => row.text));
+        await ctx.runMutation(internal.embeddingMigrations.setSlotVectors, {
+          slot: migration.slot,
+          vectors: page.rows.map((row, index) => ({
+            id: row._id,
+            embedding: embeddings[index],
+          })),
+        });
+      } catch (error) {
+        const attempts = (args.attempts ?? 0) + 1;
+        console.error(`Embedding migration failed on ${args.table}:`, error);
+        await ctx.scheduler.runAfter(
+          embeddingRetryDelay(attempts),
+          internal.embeddingMigrations.fillSlot,
+          { ...args, attempts }
+        );
+        return;
+      }
+    }
+
+    const filled = args.filled + page.rows.length;
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(PAGE_DELAY_MS, internal.embeddingMigrations.fillSlot, {
+        table: args.table,
+        cursor: page.continueCursor,
+        filled,
+      });
+    } else if (args.table === "nodeChunks") {
+      await ctx.scheduler.runAfter(PAGE_DELAY_MS, internal.embeddingMigrations.fillSlot, {
+        table: "messages",
+        cursor: null,
+        filled,
+      });
+    } else if (filled > 0) {
+      await ctx.scheduler.runAfter(PAGE_DELAY_MS, internal.embeddingMigrations.fillSlot, {
+        table: "nodeChunks",
+        cursor: null,
+        filled: 0,
+      });
+    } else {
+      await ctx.runMutation(internal.embeddingMigrations.switchSlot, {});
+    }
+  },
+});
+
+// Make the filled slot active and start dropping the old vectors
+export const switchSlot = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const state = await loadState(ctx);
+    if (!state?.migration || state.migration.phase !== "embedding") return;
+
+    const now = Date.now();
+    await ctx.db.patch(state._id, {
+      activeSlot: state.migration.slot,
+      activeModel: state.migration.model,
+      migration: {
+        ...state.migration,
+        phase: "dropping",
+        switchedAt: now,
+      },
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.embeddingMigrations.dropOldVectors, {
+      table: "nodeChunks",
+      cursor: null,
+    });
+  },
+});
+
+/**
+ * Clear the old slot page by page: chunks, messages, then whole-node vectors.
+ * Rows still marked with the old model whose new-slot vector (or a chunk's) is
+ * filled were embedded with the new model too, so their model is updated. The
+ * rest, e.g. embedded just before the switch, lose their model so the backfill
+ * job embeds them again.
+ */
+export const dropOldVectors = internalMutation({
+  args: {
+    table: migratedTable,
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const state = await loadState(ctx);
+    const migration = state?.migration;
+    if (!state || migration?.phase !== "dropping") return;
+
+    const oldSlot = otherSlot(state.activeSlot);
+    const oldModelId = modelIdFor(migration.fromModel, oldSlot);
+    const newModelId = modelIdFor(state.activeModel, state.activeSlot);
+
+    const page = await ctx.db
+      .query(args.table)
+      .paginate({ cursor: args.cursor, numItems: PAGE_SIZE });
+    const oldField = EMBEDDING_SLOT_FIELDS[oldSlot];
+    const newField = EMBEDDING_SLOT_FIELDS[state.activeSlot];
+    for (const row of page.page) {
+      let model: { embeddingModel?: string } = {};
+      if ("embeddingModel" in row && row.embeddingModel === oldModelId) {
+        const hasNewVector =
+          args.table === "messages"
+            ? (row as Doc<"messages">)[newField] !== undefined
+            : (
+                await ctx.db
+                  .query("nodeChunks")
+                  .withIndex("by_node", (q) => q.eq("nodeId", row._id as Id<"canvasNodes">))
+                  .collect()
+              ).some((chunk) => chunk[newField] !== undefined);
+        model = { embeddingModel: hasNewVector ? newModelId : undefined };
+      }
+      if (args.table === "nodeChunks") {
+        await ctx.db.patch(row._id as Id<"nodeChunks">, { [oldField]: undefined });
+      } else if (args.table === "messages") {
+        await ctx.db.patch(row._id as Id<"messages">, { [oldField]: undefined, ...model });
+      } else if (("embedding" in row && oldSlot === "a") || "embeddingModel" in model) {
+        // Whole-node vectors predate slots and are always in slot a
+        await ctx.db.patch(row._id as Id<"canvasNodes">, {
+          ...(oldSlot === "a" ? { embedding: undefined } : {}),
+          ...model,
+        });
+      }
+    }
+
+    const next = !page.isDone
+      ? { table: args.table, cursor: page.continueCursor }
+      : args.table === "nodeChunks"
+        ? { table: "messages" as const, cursor: null }
+        : args.table === "messages"
+          ? { table: "canvasNodes" as const, cursor: null }
+          : null;
+    if (next) {
+      await ctx.scheduler.runAfter(0, internal.embeddingMigrations.dropOldVectors, next);
+    } else {
+      await ctx.db.patch(state._id, { migration: undefined, updatedAt: Date.now() });
+    }
+  },
+});
+
+// Filled and total rows for one page of a table
+export const countSlotCoverage = internalQuery({
+  args: {
+    table: vectorTable,
+    cursor: v.union(v.string(), v.null()),
+    slot: embeddingSlot,
+  },
+  handler: async (ctx, args) => {
+    const page = await readUnfilledPage(ctx, args.table, args.cursor, args.slot);
+    return {
+      total: page.total,
+      filled: page.total - page.rows.length,
+      continueCursor: page.continueCursor,
+      isDone: page.isDone,
+    };
+  },
+});
+
+// Admin report of the active model and migration progress, e.g.
+//   npx convex run embeddingMigrations:getMigrationStatus
+interface SlotCoverage {
+  total: number;
+  filled: number;
+  coverage: number;
+}
+
+export const getMigrationStatus = internalAction({
+  args: {},
+  handler: async (
+    ctx
+  ): Promise<{
+    activeSlot: EmbeddingSlot;
+    activeModel: EmbeddingModelSpec;
+    migration?: Doc<"embeddingState">["migration"];
+    coverage: { chunks: SlotCoverage; messages: SlotCoverage } | null;
+  }> => {
+    const state = await ctx.runQuery(internal.embeddingMigrations.getEmbeddingState, {});
+    const migration = state.migration;
+    if (migration?.phase !== "embedding") return { ...state, coverage: null };
+
+    const report = async (table: "nodeChunks" | "messages"): Promise<SlotCoverage> => {
+      let total = 0;
+      let filled = 0;
+      let cursor: string | null = null;
+      for (;;) {
+        const page: { total: number; filled: number; continueCursor: string; isDone: boolean } =
+          await ctx.runQuery(internal.embeddingMigrations.countSlotCoverage, {
+            table,
+            cursor,
+            slot: migration.slot,
+          });
+        total += page.total;
+        filled += page.filled;
+        if (page.isDone) break;
+        cursor = page.continueCursor;
+      }
+      return { total, filled, coverage: total === 0 ? 1 : filled / total };
+    };
+
+    return {
+      ...state,
+      coverage: {
+        chunks: await report("nodeChunks"),
+        messages: await report("messages"),
+      },
+    };
+  },
+});
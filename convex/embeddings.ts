@@ -1,35 +1,182 @@
 import { v } from "convex/values";
-import { action, internalMutation } from "./_generated/server";
+import {
+  action,
+  ActionCtx,
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
 import { api, internal } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
+import { chunkContent, chunkEmbeddingInput, removeNodeChunks } from "./lib/chunks";
+import {
+  contentHash,
+  EMBEDDING_SLOT_DIMENSIONS,
+  EMBEDDING_SLOT_FIELDS,
+  embeddingModelId,
+  embeddingRetryDelay,
+  EmbeddingProvider,
+  EmbeddingSlot,
+  embeddingSlotFields,
+  getEmbeddingProvider,
+  getEmbeddingStatus,
+  SlotVectors,
+} from "./lib/embeddings";
+import {
+  hasRelatedFilters,
+  includesMessages,
+  matchesMessageFilters,
+  matchesNodeFilters,
+  relatedFilters,
+} from "./lib/search";
+
+const embeddedTable = v.union(v.literal("canvasNodes"), v.literal("messages"));
 
 // Internal mutation to update message embedding
 // Note: Internal mutations are only called by actions that have already verified auth
 export const updateMessageEmbedding = internalMutation({
   args: {
     id: v.id("messages"),
-    embedding: v.array(v.float64()),
+    ...embeddingSlotFields,
+    embeddingModel: v.string(),
+    contentHash: v.string(),
   },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.id, {
-      embedding: args.embedding,
+    const { id, ...fields } = args;
+    await ctx.db.patch(id, {
+      ...fields,
+      embeddingAttempts: undefined,
+      embeddingRetryAt: undefined,
     });
   },
 });
 
-// Internal mutation to update canvas node embedding
-export const updateNodeEmbedding = internalMutation({
+// Internal mutation to replace a node's embedded chunks. The whole-node
+// embedding is cleared; chunks supersede it.
+export const replaceNodeChunks = internalMutation({
   args: {
-    id: v.id("canvasNodes"),
-    embedding: v.array(v.float64()),
+    nodeId: v.id("canvasNodes"),
+    chunks: v.array(
+      v.object({
+        heading: v.optional(v.string()),
+        text: v.string(),
+        ...embeddingSlotFields,
+      })
+    ),
+    embeddingModel: v.string(),
+    contentHash: v.string(),
   },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.id, {
-      embedding: args.embedding,
+    const node = await ctx.db.get(args.nodeId);
+    if (!node) return;
+
+    await removeNodeChunks(ctx, args.nodeId);
+    const now = Date.now();
+    for (const [index, chunk] of args.chunks.entries()) {
+      await ctx.db.insert("nodeChunks", {
+        ...chunk,
+        userId: node.userId,
+        nodeId: args.nodeId,
+        index,
+        createdAt: now,
+      });
+    }
+    await ctx.db.patch(args.nodeId, {
+      embedding: undefined,
+      embeddingModel: args.embeddingModel,
+      contentHash: args.contentHash,
+      embeddingAttempts: undefined,
+      embeddingRetryAt: undefined,
     });
   },
 });
 
+// Chunks found by vector search, without their embeddings
+export const getChunks = internalQuery({
+  args: { ids: v.array(v.id("nodeChunks")) },
+  handler: async (ctx, args) => {
+    const chunks = await Promise.all(args.ids.map((id) => ctx.db.get(id)));
+    return chunks
+      .filter((chunk) => chunk !== null)
+      .map(({ _id, nodeId, heading, text }) => ({ _id, nodeId, heading, text }));
+  },
+});
+
+interface EmbeddingTarget {
+  slot: EmbeddingSlot;
+  provider: EmbeddingProvider;
+}
+
+// The active model, plus the model being migrated to while its slot is filled
+async function getEmbeddingTargets(ctx: ActionCtx) {
+  const state = await ctx.runQuery(internal.embeddingMigrations.getEmbeddingState, {});
+  const active: EmbeddingTarget = {
+    slot: state.activeSlot,
+    provider: getEmbeddingProvider(
+      state.activeModel,
+      EMBEDDING_SLOT_DIMENSIONS[state.activeSlot]
+    ),
+  };
+  const targets = [active];
+  if (state.migration?.phase === "embedding") {
+    targets.push({
+      slot: state.migration.slot,
+      provider: getEmbeddingProvider(
+        state.migration.model,
+        EMBEDDING_SLOT_DIMENSIONS[state.migration.slot]
+      ),
+    });
+  }
+  return { active, targets };
+}
+
+// Embed inputs with every target model; returns each input's slot vectors
+async function embedForTargets(
+  targets: EmbeddingTarget[],
+  inputs: string[]
+): Promise<SlotVectors[]> {
+  const vectors: SlotVectors[] = inputs.map(() => ({}));
+  for (const target of targets) {
+    const embeddings = await target.provider.embed(inputs);
+    for (const [index, embedding] of embeddings.entries()) {
+      vectors[index][EMBEDDING_SLOT_FIELDS[target.slot]] = embedding;
+    }
+  }
+  return vectors;
+}
+
+async function embedMessageContent(
+  ctx: ActionCtx,
+  targets: EmbeddingTarget[],
+  messageId: Id<"messages">,
+  content: string
+) {
+  const [vectors] = await embedForTargets(targets, [content]);
+  await ctx.runMutation(internal.embeddings.updateMessageEmbedding, {
+    id: messageId,
+    ...vectors,
+    embeddingModel: embeddingModelId(targets[0].provider),
+    contentHash: contentHash(content),
+  });
+}
+
+// Long notes and imports are embedded passage by passage
+async function embedNodeContent(
+  ctx: ActionCtx,
+  targets: EmbeddingTarget[],
+  nodeId: Id<"canvasNodes">,
+  content: string
+) {
+  const chunks = chunkContent(content);
+  const vectors = await embedForTargets(targets, chunks.map(chunkEmbeddingInput));
+  await ctx.runMutation(internal.embeddings.replaceNodeChunks, {
+    nodeId,
+    chunks: chunks.map((chunk, index) => ({ ...chunk, ...vectors[index] })),
+    embeddingModel: embeddingModelId(targets[0].provider),
+    contentHash: contentHash(content),
+  });
+}
+
 // Action to embed a message (called from frontend after saving)
 export const embedMessage = action({
   args: {
@@ -43,33 +190,8 @@ export const embedMessage = action({
     });
     if (!message) throw new Error("Message not found or unauthorized");
 
-    // Call OpenAI embedding API
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "text-embedding-3-small",
-        input: args.content,
-      }),
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      console.error("OpenAI API error:", data);
-      throw new Error(data.error?.message ?? "Failed to generate embedding");
-    }
-
-    const embedding = data.data[0].embedding;
-
-    // Store the embedding
-    await ctx.runMutation(internal.embeddings.updateMessageEmbedding, {
-      id: args.messageId,
-      embedding,
-    });
+    const { targets } = await getEmbeddingTargets(ctx);
+    await embedMessageContent(ctx, targets, args.messageId, args.content);
 
     return { success: true };
   },
@@ -86,33 +208,228 @@ export const embedCanvasNode = action({
     const node = await ctx.runQuery(api.canvas.getNodeById, { id: args.nodeId });
     if (!node) throw new Error("Node not found or unauthorized");
 
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "text-embedding-3-small",
-        input: args.content,
-      }),
-    });
+    const { targets } = await getEmbeddingTargets(ctx);
+    await embedNodeContent(ctx, targets, args.nodeId, args.content);
+
+    return { success: true };
+  },
+});
+
+// Background backfill. Embeddings are requested by the client after saving,
+// which can fail or never happen (closed tab), so a cron walks both tables and
+// re-embeds rows that are missing, stale or on an outdated model.
+
+// Rows scanned per page, and embedded per provider call
+const BACKFILL_PAGE_SIZE = 100;
+const BACKFILL_BATCH_SIZE = 20;
+// Pause between pages, longer after a failure, to stay under provider rate limits
+const BACKFILL_PAGE_DELAY_MS = 2000;
+const BACKFILL_FAILURE_DELAY_MS = 60 * 1000;
+// A run with no progress for this long is assumed dead, and a new one may start
+const BACKFILL_STALE_MS = 15 * 60 * 1000;
 
-    const data = await response.json();
+// Claim the backfill for a new run. Returns false while another run is live.
+export const startBackfillRun = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const run = await ctx.db.query("embeddingBackfill").first();
+    if (run?.running && now - run.heartbeatAt < BACKFILL_STALE_MS) return false;
 
-    if (!response.ok) {
-      console.error("OpenAI API error:", data);
-      throw new Error(data.error?.message ?? "Failed to generate embedding");
+    const fields = { running: true, startedAt: now, heartbeatAt: now };
+    if (run) {
+      await ctx.db.patch(run._id, fields);
+    } else {
+      await ctx.db.insert("embeddingBackfill", fields);
     }
+    return true;
+  },
+});
 
-    const embedding = data.data[0].embedding;
+// Mark the run as alive after a page, or finished after the last one
+export const recordBackfillProgress = internalMutation({
+  args: { done: v.boolean() },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.query("embeddingBackfill").first();
+    if (!run) return;
+    await ctx.db.patch(run._id, { running: !args.done, heartbeatAt: Date.now() });
+  },
+});
 
-    await ctx.runMutation(internal.embeddings.updateNodeEmbedding, {
-      id: args.nodeId,
-      embedding,
-    });
+// A page of rows and the ones among them that need embedding
+export const findEmbeddingBacklog = internalQuery({
+  args: {
+    table: embeddedTable,
+    cursor: v.union(v.string(), v.null()),
+    modelId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const page = await ctx.db
+      .query(args.table)
+      .paginate({ cursor: args.cursor, numItems: BACKFILL_PAGE_SIZE });
 
-    return { success: true };
+    const backlog = page.page
+      .filter((row) => !("deletedAt" in row && row.deletedAt))
+      .filter((row) => (row.embeddingRetryAt ?? 0) <= now)
+      .filter((row) => getEmbeddingStatus(row, args.modelId) !== "current")
+      .map((row) => ({ _id: row._id, content: row.content }));
+
+    return { backlog, continueCursor: page.continueCursor, isDone: page.isDone };
+  },
+});
+
+// Back off rows whose embedding failed
+export const recordEmbeddingFailure = internalMutation({
+  args: {
+    ids: v.array(v.union(v.id("canvasNodes"), v.id("messages"))),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const id of args.ids) {
+      const row = await ctx.db.get(id);
+      if (!row) continue;
+      const attempts = (row.embeddingAttempts ?? 0) + 1;
+      await ctx.db.patch(id, {
+        embeddingAttempts: attempts,
+        embeddingRetryAt: now + embeddingRetryDelay(attempts),
+      });
+    }
+  },
+});
+
+// Embed one page of a table, then schedule the next page (nodes, then messages).
+// The cron starts a run with no table; it's skipped while the last run is live.
+export const backfillEmbeddings = internalAction({
+  args: {
+    table: v.optional(embeddedTable),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    if (!args.table && !(await ctx.runMutation(internal.embeddings.startBackfillRun, {}))) {
+      return;
+    }
+    const table = args.table ?? "canvasNodes";
+    const { active, targets } = await getEmbeddingTargets(ctx);
+    const { backlog, continueCursor, isDone } = await ctx.runQuery(
+      internal.embeddings.findEmbeddingBacklog,
+      { table, cursor: args.cursor ?? null, modelId: embeddingModelId(active.provider) }
+    );
+
+    let failed = false;
+    for (let i = 0; i < backlog.length; i += BACKFILL_BATCH_SIZE) {
+      const batch = backlog.slice(i, i + BACKFILL_BATCH_SIZE);
+      const embedded = new Set<string>();
+      try {
+        if (table === "messages") {
+          const vectors = await embedForTargets(
+            targets,
+            batch.map((row) => row.content)
+          );
+          for (const [index, row] of batch.entries()) {
+            await ctx.runMutation(internal.embeddings.updateMessageEmbedding, {
+              id: row._id as Id<"messages">,
+              ...vectors[index],
+              embeddingModel: embeddingModelId(active.provider),
+              contentHash: contentHash(row.content),
+            });
+            embedded.add(row._id);
+          }
+        } else {
+          for (const row of batch) {
+            await embedNodeContent(ctx, targets, row._id as Id<"canvasNodes">, row.content);
+            embedded.add(row._id);
+          }
+        }
+      } catch (error) {
+        console.error(`Embedding backfill failed for ${table}:`, error);
+        // Rows embedded before the failure keep their clean state
+        await ctx.runMutation(internal.embeddings.recordEmbeddingFailure, {
+          ids: batch.filter((row) => !embedded.has(row._id)).map((row) => row._id),
+        });
+        failed = true;
+        // Let the rest of the page wait for the next run
+        break;
+      }
+    }
+
+    const next = !isDone
+      ? { table, cursor: continueCursor }
+      : table === "canvasNodes"
+        ? { table: "messages" as const, cursor: null }
+        : null;
+    await ctx.runMutation(internal.embeddings.recordBackfillProgress, { done: !next });
+    if (next) {
+      await ctx.scheduler.runAfter(
+        failed ? BACKFILL_FAILURE_DELAY_MS : BACKFILL_PAGE_DELAY_MS,
+        internal.embeddings.backfillEmbeddings,
+        next
+      );
+    }
+  },
+});
+
+// Coverage counts for one page of a table
+export const countEmbeddingCoverage = internalQuery({
+  args: {
+    table: embeddedTable,
+    cursor: v.union(v.string(), v.null()),
+    modelId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query(args.table)
+      .paginate({ cursor: args.cursor, numItems: BACKFILL_PAGE_SIZE });
+
+    const counts = { total: 0, current: 0, missing: 0, stale: 0, outdated: 0, failing: 0 };
+    for (const row of page.page) {
+      if ("deletedAt" in row && row.deletedAt) continue;
+      counts.total++;
+      counts[getEmbeddingStatus(row, args.modelId)]++;
+      if (row.embeddingAttempts) counts.failing++;
+    }
+    return { counts, continueCursor: page.continueCursor, isDone: page.isDone };
+  },
+});
+
+// Admin report of embedding coverage across all users, e.g.
+//   npx convex run embeddings:getEmbeddingCoverage
+// Runs as an action so it can page through tables too large for one query.
+export const getEmbeddingCoverage = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const { active } = await getEmbeddingTargets(ctx);
+    const modelId = embeddingModelId(active.provider);
+    const report = async (table: "canvasNodes" | "messages") => {
+      const totals = { total: 0, current: 0, missing: 0, stale: 0, outdated: 0, failing: 0 };
+      let cursor: string | null = null;
+      for (;;) {
+        const page: {
+          counts: typeof totals;
+          continueCursor: string;
+          isDone: boolean;
+        } = await ctx.runQuery(internal.embeddings.countEmbeddingCoverage, {
+          table,
+          cursor,
+          modelId,
+        });
+        for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+          totals[key] += page.counts[key];
+        }
+        if (page.isDone) break;
+        cursor = page.continueCursor;
+      }
+      return {
+        ...totals,
+        coverage: totals.total === 0 ? 1 : totals.current / totals.total,
+      };
+    };
+
+    return {
+      modelId,
+      nodes: await report("canvasNodes"),
+      messages: await report("messages"),
+    };
   },
 });
 
@@ -130,8 +447,11 @@ interface RelatedMessage {
 interface RelatedNode {
   _id: string;
   content: string;
+  title?: string;
   type: "node";
   score: number;
+  passage?: string; // Best matching chunk of the content
+  heading?: string; // Heading above the passage
   x: number;
   y: number;
   createdAt: number;
@@ -142,53 +462,97 @@ interface FindRelatedResult {
   nodes: (RelatedNode | null)[];
 }
 
-// Find related content based on text query
+// Candidate nodes' filterable fields, for the current user's live nodes only
+export const getNodeFilterFields = internalQuery({
+  args: { ids: v.array(v.id("canvasNodes")), userId: v.string() },
+  handler: async (ctx, args) => {
+    const nodes = await Promise.all(args.ids.map((id) => ctx.db.get(id)));
+    return nodes
+      .filter((node) => node !== null)
+      .filter((node) => node.userId === args.userId && !node.deletedAt)
+      .map(({ _id, type, sourceType, createdAt }) => ({ _id, type, sourceType, createdAt }));
+  },
+});
+
+// Vector search can't return more than this many results
+const MAX_VECTOR_RESULTS = 256;
+
+/**
+ * Find related content based on text query. Vector search is limited to the
+ * user's own rows. Vector filters can only match one field, so the optional
+ * type, source and date filters are applied to a larger candidate set.
+ */
 export const findRelated = action({
   args: {
     query: v.string(),
     limit: v.optional(v.number()),
+    filters: v.optional(relatedFilters),
   },
   handler: async (ctx, args): Promise<FindRelatedResult> => {
-    // Get embedding for query
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "text-embedding-3-small",
-        input: args.query,
-      }),
-    });
-
-    const data = await response.json();
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const limit = args.limit ?? 5;
+    const filters = args.filters;
+    const overfetch = hasRelatedFilters(filters) ? 4 : 1;
 
-    if (!response.ok) {
-      console.error("OpenAI API error:", data);
-      throw new Error(data.error?.message ?? "Failed to generate embedding");
-    }
+    // Get embedding for query with the active model, and search its slot
+    const { active } = await getEmbeddingTargets(ctx);
+    const [embedding] = await active.provider.embed([args.query]);
+    const index = active.slot === "a" ? "by_embedding" : "by_embedding_b";
 
-    const embedding = data.data[0].embedding;
+    // Search messages (none when filtering by node type or source)
+    const messageResults = includesMessages(filters)
+      ? await ctx.vectorSearch("messages", index, {
+          vector: embedding,
+          limit: Math.min(limit * overfetch, MAX_VECTOR_RESULTS),
+          filter: (q) => q.eq("userId", identity.subject),
+        })
+      : [];
 
-    // Search messages
-    const messageResults = await ctx.vectorSearch("messages", "by_embedding", {
+    // Search chunks, keeping the best passage of each node. Several chunks can
+    // come from the same node, so fetch more than needed.
+    const chunkResults = await ctx.vectorSearch("nodeChunks", index, {
       vector: embedding,
-      limit: args.limit ?? 5,
+      limit: Math.min(limit * 4 * overfetch, MAX_VECTOR_RESULTS),
+      filter: (q) => q.eq("userId", identity.subject),
     });
-
-    // Search canvas nodes
-    const nodeResults = await ctx.vectorSearch("canvasNodes", "by_embedding", {
-      vector: embedding,
-      limit: args.limit ?? 5,
+    const chunks = await ctx.runQuery(internal.embeddings.getChunks, {
+      ids: chunkResults.map((r) => r._id),
     });
+    const chunkScores = new Map(chunkResults.map((r) => [r._id, r._score]));
+    const best = new Map<
+      Id<"canvasNodes">,
+      { score: number; passage?: string; heading?: string }
+    >();
+    for (const chunk of chunks) {
+      const score = chunkScores.get(chunk._id) ?? 0;
+      if ((best.get(chunk.nodeId)?.score ?? -1) < score) {
+        best.set(chunk.nodeId, { score, passage: chunk.text, heading: chunk.heading });
+      }
+    }
+
+    // Nodes embedded whole, before chunking, are searched directly. Those
+    // vectors are all in slot a and are dropped by the first model migration.
+    const nodeResults =
+      active.slot === "a"
+        ? await ctx.vectorSearch("canvasNodes", "by_embedding", {
+            vector: embedding,
+            limit: Math.min(limit * overfetch, MAX_VECTOR_RESULTS),
+            filter: (q) => q.eq("userId", identity.subject),
+          })
+        : [];
+    for (const r of nodeResults) {
+      if ((best.get(r._id)?.score ?? -1) < r._score) {
+        best.set(r._id, { score: r._score });
+      }
+    }
 
     // Fetch full documents and filter by user ownership using auth-checked queries
     const messages: (RelatedMessage | null)[] = await Promise.all(
       messageResults.map(async (r: { _id: Id<"messages">; _score: number }) => {
         // Use the auth-checked query - will return null if not user's message
         const msg = await ctx.runQuery(api.messages.getById, { id: r._id });
-        return msg
+        return msg && matchesMessageFilters(msg, filters)
           ? {
               ...msg,
               _id: msg._id as string,
@@ -200,15 +564,24 @@ export const findRelated = action({
       })
     );
 
+    const candidates = await ctx.runQuery(internal.embeddings.getNodeFilterFields, {
+      ids: Array.from(best.keys()),
+      userId: identity.subject,
+    });
+    const topNodes = candidates
+      .filter((node) => matchesNodeFilters(node, filters))
+      .map((node) => [node._id, best.get(node._id)!] as const)
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, limit);
     const nodes: (RelatedNode | null)[] = await Promise.all(
-      nodeResults.map(async (r: { _id: Id<"canvasNodes">; _score: number }) => {
+      topNodes.map(async ([nodeId, match]) => {
         // Use the auth-checked query - will return null if not user's node
-        const node = await ctx.runQuery(api.canvas.getNodeById, { id: r._id });
+        const node = await ctx.runQuery(api.canvas.getNodeById, { id: nodeId });
         return node
           ? {
               ...node,
               _id: node._id as string,
-              score: r._score,
+              ...match,
               type: "node" as const,
             }
           : null;
@@ -216,7 +589,7 @@ export const findRelated = action({
     );
 
     return {
-      messages: messages.filter(Boolean),
+      messages: messages.filter(Boolean).slice(0, limit),
       nodes: nodes.filter(Boolean),
     };
   },
@@ -0,0 +1,106 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { normalizeTitle } from "./notes";
+
+export async function getNodeAliases(
+  ctx: QueryCtx,
+  nodeId: Id<"canvasNodes">
+) {
+  return await ctx.db
+    .query("noteAliases")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .collect();
+}
+
+// Find the note a wiki link target points at: by title first, then by alias
+export async function resolveNoteTitle(
+  ctx: QueryCtx,
+  userId: string,
+  title: string
+) {
+  const key = normalizeTitle(title);
+  if (!key) return null;
+
+  const matches = await ctx.db
+    .query("canvasNodes")
+    .withIndex("by_user_title", (q) =>
+      q.eq("userId", userId).eq("normalizedTitle", key)
+    )
+    .collect();
+  const byTitle = matches.find((n) => n.type === "note" && !n.deletedAt);
+  if (byTitle) return byTitle;
+
+  const aliases = await ctx.db
+    .query("noteAliases")
+    .withIndex("by_user_alias", (q) =>
+      q.eq("userId", userId).eq("normalizedAlias", key)
+    )
+    .collect();
+  for (const alias of aliases) {
+    const node = await ctx.db.get(alias.nodeId);
+    if (node && !node.deletedAt) return node;
+  }
+
+  return null;
+}
+
+// Record an alternate name for a note, skipping duplicates
+export async function addAlias(
+  ctx: MutationCtx,
+  userId: string,
+  nodeId: Id<"canvasNodes">,
+  alias: string
+) {
+  const name = alias.replace(/\s+/g, " ").trim();
+  if (!name) return;
+  const normalizedAlias = normalizeTitle(name);
+
+  const existing = await getNodeAliases(ctx, nodeId);
+  if (existing.some((a) => a.normalizedAlias === normalizedAlias)) return;
+
+  await ctx.db.insert("noteAliases", {
+    userId,
+    nodeId,
+    alias: name,
+    normalizedAlias,
+    createdAt: Date.now(),
+  });
+}
+
+// Move a node's aliases onto another node (used when merging notes). Names the
+// other node already has, as an alias or its title, are dropped.
+export async function moveNodeAliases(
+  ctx: MutationCtx,
+  fromId: Id<"canvasNodes">,
+  toId: Id<"canvasNodes">
+) {
+  const target = await ctx.db.get(toId);
+  const existing = new Set(
+    (await getNodeAliases(ctx, toId)).map((alias) => alias.normalizedAlias)
+  );
+  if (target?.normalizedTitle) existing.add(target.normalizedTitle);
+
+  for (const alias of await getNodeAliases(ctx, fromId)) {
+    if (existing.has(alias.normalizedAlias)) {
+      await ctx.db.delete(alias._id);
+    } else {
+      await ctx.db.patch(alias._id, { nodeId: toId });
+      existing.add(alias.normalizedAlias);
+    }
+  }
+}
+
+// Remove all aliases of a node (used when the node is purged)
+export async function removeNodeAliases(
+  ctx: MutationCtx,
+  nodeId: Id<"canvasNodes">
+) {
+  const aliases = await ctx.db
+    .query("noteAliases")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .collect();
+
+  for (const alias of aliases) {
+    await ctx.db.delete(alias._id);
+  }
+}
@@ -0,0 +1,119 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+
+export const DEFAULT_BOARD_NAME = "Main board";
+
+export async function getDefaultBoard(ctx: QueryCtx, userId: string) {
+  const boards = await ctx.db
+    .query("boards")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  return boards.find((board) => board.isDefault) ?? null;
+}
+
+// Create the user's default board, placing every existing node on it at the
+// position it had on the old single canvas
+export async function ensureDefaultBoard(ctx: MutationCtx, userId: string) {
+  const existing = await getDefaultBoard(ctx, userId);
+  if (existing) return existing._id;
+
+  const now = Date.now();
+  const boardId = await ctx.db.insert("boards", {
+    userId,
+    name: DEFAULT_BOARD_NAME,
+    isDefault: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const nodes = await ctx.db
+    .query("canvasNodes")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  for (const node of nodes) {
+    await ctx.db.insert("boardNodes", {
+      userId,
+      boardId,
+      nodeId: node._id,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      height: node.height,
+      createdAt: now,
+    });
+  }
+
+  return boardId;
+}
+
+// Place a node on a board (or the default board if none is given). If the user
+// has no default board yet the node is picked up when it gets created.
+export async function placeNode(
+  ctx: MutationCtx,
+  userId: string,
+  nodeId: Id<"canvasNodes">,
+  position: { x: number; y: number; width?: number; height?: number },
+  boardId?: Id<"boards">
+) {
+  const targetBoardId = boardId ?? (await getDefaultBoard(ctx, userId))?._id;
+  if (!targetBoardId) return;
+
+  const existing = await ctx.db
+    .query("boardNodes")
+    .withIndex("by_board_node", (q) =>
+      q.eq("boardId", targetBoardId).eq("nodeId", nodeId)
+    )
+    .first();
+  if (existing) return;
+
+  await ctx.db.insert("boardNodes", {
+    userId,
+    boardId: targetBoardId,
+    nodeId,
+    ...position,
+    createdAt: Date.now(),
+  });
+}
+
+// Remove all placements of a node (used when a node is purged)
+export async function removeNodePlacements(
+  ctx: MutationCtx,
+  nodeId: Id<"canvasNodes">
+) {
+  const placements = await ctx.db
+    .query("boardNodes")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .collect();
+
+  for (const placement of placements) {
+    await ctx.db.delete(placement._id);
+  }
+}
+
+// Move a node's placements onto another node (used when merging notes). Boards
+// the other node is already on keep its existing position.
+export async function moveNodePlacements(
+  ctx: MutationCtx,
+  fromId: Id<"canvasNodes">,
+  toId: Id<"canvasNodes">
+) {
+  const placements = await ctx.db
+    .query("boardNodes")
+    .withIndex("by_node", (q) => q.eq("nodeId", fromId))
+    .collect();
+
+  for (const placement of placements) {
+    const existing = await ctx.db
+      .query("boardNodes")
+      .withIndex("by_board_node", (q) =>
+        q.eq("boardId", placement.boardId).eq("nodeId", toId)
+      )
+      .first();
+    if (existing) {
+      await ctx.db.delete(placement._id);
+    } else {
+      await ctx.db.patch(placement._id, { nodeId: toId });
+    }
+  }
+}
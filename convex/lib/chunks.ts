@@ -0,0 +1,118 @@
+import { MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { decodeEntities } from "./notes";
+
+export interface ContentChunk {
+  text: string; // Section body, or the heading alone for an empty section
+  heading?: string; // Nearest heading above the chunk
+}
+
+const CHUNK_SIZE = 1500; // Characters (~375 tokens)
+const CHUNK_OVERLAP = 200; // Characters repeated from the previous chunk
+
+// Turn TipTap HTML into markdown-like text: one block per paragraph, "#" headings
+function htmlToBlocks(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<h([1-6])[^>]*>/gi, (_, level) => `\n\n${"#".repeat(Number(level))} `)
+      .replace(/<\/(p|h[1-6]|li|blockquote|pre|div)>|<br\s*\/?>/gi, "\n\n")
+      .replace(/<[^>]*>/g, "")
+  );
+}
+
+// Split note content into sections, each a heading and its paragraphs
+function toSections(content: string) {
+  const text = /<\/?[a-z][^>]*>/i.test(content) ? htmlToBlocks(content) : content;
+
+  const sections: { heading?: string; paragraphs: string[] }[] = [{ paragraphs: [] }];
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    const joined = paragraph.join("\n").trim();
+    if (joined) sections[sections.length - 1].paragraphs.push(joined);
+    paragraph = [];
+  };
+
+  for (const line of text.split("\n")) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      endParagraph();
+      sections.push({ heading: heading[1].trim(), paragraphs: [] });
+    } else if (!line.trim()) {
+      endParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  endParagraph();
+
+  return sections.filter((section) => section.heading || section.paragraphs.length > 0);
+}
+
+// Break a paragraph longer than a chunk at word boundaries
+function splitLong(paragraph: string): string[] {
+  if (paragraph.length <= CHUNK_SIZE) return [paragraph];
+  const pieces: string[] = [];
+  let rest = paragraph;
+  while (rest.length > CHUNK_SIZE) {
+    const space = rest.lastIndexOf(" ", CHUNK_SIZE);
+    const cut = space > CHUNK_SIZE / 2 ? space : CHUNK_SIZE;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// The end of a chunk, starting at a word, to repeat at the start of the next
+function overlapTail(text: string): string {
+  if (text.length <= CHUNK_OVERLAP) return text;
+  const tail = text.slice(-CHUNK_OVERLAP);
+  const space = tail.indexOf(" ");
+  return space === -1 ? tail : tail.slice(space + 1);
+}
+
+/**
+ * Split note content (TipTap HTML or markdown) into chunks for embedding.
+ * Chunks never cross a heading; within a section paragraphs are packed up to
+ * CHUNK_SIZE, and each chunk after the first repeats the end of the previous
+ * one so a passage split across chunks is still found.
+ */
+export function chunkContent(content: string): ContentChunk[] {
+  const chunks: ContentChunk[] = [];
+
+  for (const section of toSections(content)) {
+    if (section.paragraphs.length === 0) {
+      chunks.push({ text: section.heading!, heading: section.heading });
+      continue;
+    }
+
+    let current = "";
+    for (const piece of section.paragraphs.flatMap(splitLong)) {
+      if (current && current.length + piece.length + 2 > CHUNK_SIZE) {
+        chunks.push({ text: current, heading: section.heading });
+        current = overlapTail(current);
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+    chunks.push({ text: current, heading: section.heading });
+  }
+
+  return chunks;
+}
+
+// Text sent to the embedding model; the heading gives the chunk its context
+export function chunkEmbeddingInput(chunk: ContentChunk): string {
+  return chunk.heading && chunk.heading !== chunk.text
+    ? `${chunk.heading}\n\n${chunk.text}`
+    : chunk.text;
+}
+
+export async function removeNodeChunks(ctx: MutationCtx, nodeId: Id<"canvasNodes">) {
+  const chunks = await ctx.db
+    .query("nodeChunks")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.delete(chunk._id);
+  }
+}
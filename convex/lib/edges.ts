@@ -0,0 +1,77 @@
+import { v, Infer } from "convex/values";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+
+// Semantic relationship types for canvas edges
+export const edgeKind = v.union(
+  v.literal("supports"),
+  v.literal("contradicts"),
+  v.literal("extends"),
+  v.literal("example-of"),
+  v.literal("question"),
+  v.literal("similar")
+);
+
+export type EdgeKind = Infer<typeof edgeKind>;
+
+// Edges are unique per (source, target, kind). Oldest first.
+export async function findMatchingEdges(
+  ctx: QueryCtx,
+  source: Id<"canvasNodes">,
+  target: Id<"canvasNodes">,
+  kind: EdgeKind | undefined
+) {
+  const edges = await ctx.db
+    .query("canvasEdges")
+    .withIndex("by_source_target", (q) =>
+      q.eq("source", source).eq("target", target)
+    )
+    .collect();
+  return edges.filter((edge) => edge.kind === kind);
+}
+
+// Legacy similarity labels written by findRelated, e.g. "87%" or "87% related"
+const SIMILARITY_LABEL = /^(\d{1,3})%( related)?$/;
+
+export function parseSimilarityLabel(label: string | undefined) {
+  const match = label?.match(SIMILARITY_LABEL);
+  return match ? Number(match[1]) / 100 : null;
+}
+
+// Move a node's edges onto another node (used when merging notes). Edges that
+// would become self-loops are dropped and duplicates are folded into the
+// existing edge, keeping the higher score.
+export async function moveNodeEdges(
+  ctx: MutationCtx,
+  fromId: Id<"canvasNodes">,
+  toId: Id<"canvasNodes">
+) {
+  const outgoing = await ctx.db
+    .query("canvasEdges")
+    .withIndex("by_source", (q) => q.eq("source", fromId))
+    .collect();
+  const incoming = await ctx.db
+    .query("canvasEdges")
+    .withIndex("by_target", (q) => q.eq("target", fromId))
+    .collect();
+
+  for (const edge of [...outgoing, ...incoming]) {
+    const source = edge.source === fromId ? toId : edge.source;
+    const target = edge.target === fromId ? toId : edge.target;
+
+    if (source === target) {
+      await ctx.db.delete(edge._id);
+      continue;
+    }
+
+    const [existing] = await findMatchingEdges(ctx, source, target, edge.kind);
+    if (existing) {
+      if (edge.score !== undefined && edge.score > (existing.score ?? -1)) {
+        await ctx.db.patch(existing._id, { score: edge.score });
+      }
+      await ctx.db.delete(edge._id);
+    } else {
+      await ctx.db.patch(edge._id, { source, target });
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import { v } from "convex/values";
+
+// Embedding providers. The model in use starts out as EMBEDDING_PROVIDER
+// (set it on the Convex deployment):
+//   openai - OpenAI's API (default), using OPENAI_API_KEY
+//   local  - any OpenAI-compatible endpoint at EMBEDDING_BASE_URL, e.g. Ollama,
+//            with EMBEDDING_MODEL naming the model
+//   hash   - deterministic hashing embedder for offline development and tests
+// EMBEDDING_MODEL also overrides the OpenAI model. Later model changes go
+// through embeddingMigrations, which records the active model in the database.
+
+// Vectors live in one of two slots, each with its own fields and indexes, so a
+// new model can be embedded alongside the live one. Before a migration, set
+// the idle slot's size to the new model's and deploy.
+export type EmbeddingSlot = "a" | "b";
+export const embeddingSlot = v.union(v.literal("a"), v.literal("b"));
+
+export const EMBEDDING_SLOT_DIMENSIONS: Record<EmbeddingSlot, number> = {
+  a: 1536, // text-embedding-3-small
+  b: 1536,
+};
+
+// Document field holding each slot's vector (nodeChunks and messages)
+export const EMBEDDING_SLOT_FIELDS = {
+  a: "embedding",
+  b: "embeddingB",
+} as const;
+
+// Validators for a document's slot vectors
+export const embeddingSlotFields = {
+  embedding: v.optional(v.array(v.float64())),
+  embeddingB: v.optional(v.array(v.float64())),
+};
+
+export type SlotVectors = { embedding?: number[]; embeddingB?: number[] };
+
+export function otherSlot(slot: EmbeddingSlot): EmbeddingSlot {
+  return slot === "a" ? "b" : "a";
+}
+
+export type EmbeddingProviderName = "openai" | "local" | "hash";
+
+export const embeddingModelSpec = v.object({
+  provider: v.union(v.literal("openai"), v.literal("local"), v.literal("hash")),
+  model: v.optional(v.string()), // Provider default when unset
+});
+
+export interface EmbeddingModelSpec {
+  provider: EmbeddingProviderName;
+  model?: string;
+}
+
+// The model configured by environment variables
+export function defaultEmbeddingSpec(
+  env: Record<string, string | undefined> = process.env
+): EmbeddingModelSpec {
+  return {
+    provider: (env.EMBEDDING_PROVIDER ?? "openai") as EmbeddingProviderName,
+    model: env.EMBEDDING_MODEL,
+  };
+}
+
+// Stored on nodes and messages so the backfill job can find missing, stale
+// and outdated embeddings
+export const embeddingTrackingFields = {
+  embeddingModel: v.optional(v.string()), // See embeddingModelId
+  contentHash: v.optional(v.string()), // Hash of the content that was embedded
+  embeddingAttempts: v.optional(v.number()), // Consecutive failures
+  embeddingRetryAt: v.optional(v.number()), // No retry before this time
+};
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  dimensions: number;
+  // One vector of `dimensions` per input, in order
+  embed(inputs: string[]): Promise<number[][]>;
+}
+
+// Inputs per embeddings API request
+const EMBEDDING_BATCH_SIZE = 100;
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  dimensions: number;
+  // Ask the API for `dimensions` (text-embedding-3 models support it)
+  requestDimensions: boolean;
+}
+
+function openAICompatibleProvider(config: OpenAICompatibleConfig): EmbeddingProvider {
+  return {
+    name: config.name,
+    model: config.model,
+    dimensions: config.dimensions,
+    async embed(inputs) {
+      const embeddings: number[][] = [];
+      for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+        const response = await fetch(`${config.baseUrl}/embeddings`, {
+          method: "POST",
+          headers: {
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            model: config.model,
+            input: inputs.slice(i, i + EMBEDDING_BATCH_SIZE),
+            ...(config.requestDimensions ? { dimensions: config.dimensions } : {}),
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          console.error(`${config.name} embeddings error:`, data);
+          throw new Error(data.error?.message ?? "Failed to generate embedding");
+        }
+
+        for (const item of data.data as { index: number; embedding: number[] }[]) {
+          if (item.embedding.length !== config.dimensions) {
+            throw new Error(
+              `${config.model} returned ${item.embedding.length} dimensions, expected ${config.dimensions}`
+            );
+          }
+          embeddings[i + item.index] = item.embedding;
+        }
+      }
+      return embeddings;
+    },
+  };
+}
+
+// FNV-1a, for stable token buckets
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embed text by hashing its words and word pairs into signed buckets, then
+ * normalizing. Texts sharing words come out similar, which is enough to
+ * exercise search and retrieval without a model or network.
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = [
+    ...words,
+    ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+  ];
+  for (const feature of features) {
+    const hash = hashString(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+// Identifies the model behind stored embeddings, e.g. "openai/text-embedding-3-small"
+export function embeddingModelId(provider: EmbeddingProvider): string {
+  return `${provider.name}/${provider.model}`;
+}
+
+// Fingerprint of the content an embedding was made from
+export function contentHash(content: string): string {
+  return `${content.length.toString(36)}-${hashString(content).toString(36)}`;
+}
+
+export type EmbeddingStatus = "current" | "missing" | "stale" | "outdated";
+
+// Whether a node's or message's embedding matches its content and the current model
+export function getEmbeddingStatus(
+  row: { content: string; embeddingModel?: string; contentHash?: string },
+  modelId: string
+): EmbeddingStatus {
+  if (!row.embeddingModel) return "missing";
+  if (row.embeddingModel !== modelId) return "outdated";
+  if (row.contentHash !== contentHash(row.content)) return "stale";
+  return "current";
+}
+
+// Wait before retrying a failed embedding: 1 minute, doubling up to a day
+export function embeddingRetryDelay(attempts: number): number {
+  return Math.min(60 * 1000 * 2 ** Math.max(0, attempts - 1), 24 * 60 * 60 * 1000);
+}
+
+// A provider for a model, producing vectors for a slot
+export function getEmbeddingProvider(
+  spec: EmbeddingModelSpec = defaultEmbeddingSpec(),
+  dimensions: number = EMBEDDING_SLOT_DIMENSIONS.a,
+  env: Record<string, string | undefined> = process.env
+): EmbeddingProvider {
+  switch (spec.provider) {
+    case "openai":
+      return openAICompatibleProvider({
+        name: spec.provider,
+        baseUrl: "https://api.openai.com/v1",
+        apiKey: env.OPENAI_API_KEY,
+        model: spec.model ?? "text-embedding-3-small",
+        dimensions,
+        requestDimensions: true,
+      });
+    case "local":
+      // Local models vary in size, so the model must be chosen explicitly
+      if (!spec.model) {
+        throw new Error("A model is required for the local embedding provider");
+      }
+      return openAICompatibleProvider({
+        name: spec.provider,
+        baseUrl: (env.EMBEDDING_BASE_URL ?? "http://localhost:11434/v1").replace(/\/$/, ""),
+        apiKey: env.EMBEDDING_API_KEY,
+        model: spec.model,
+        dimensions,
+        requestDimensions: false,
+      });
+    case "hash":
+      return {
+        name: spec.provider,
+        model: spec.model ?? "hash-v1",
+        dimensions,
+        async embed(inputs) {
+          return inputs.map((input) => hashEmbedding(input, dimensions));
+        },
+      };
+    default:
+      throw new Error(`Unknown embedding provider "${spec.provider}"`);
+  }
+}
@@ -0,0 +1,151 @@
+import { decodeEntities, escapeHtml } from "./notes";
+import { Snippet } from "./search";
+
+export interface UnlinkedMention {
+  index: number; // Position among the content's unlinked mentions, for wrapMention
+  text: string; // The mention as written
+  snippet: Snippet;
+}
+
+interface MentionMatch {
+  start: number; // Offsets into the content
+  end: number;
+  plainStart: number; // Offsets into the plain text, for snippets
+  plainEnd: number;
+}
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT = 60; // Characters shown before the mention
+
+// Elements whose text is already a link: wiki links, note embeds and @mentions
+const LINK_ELEMENT = /\bdata-(?:wiki-link|note-embed)="true"|\bdata-type="noteMention"/;
+const VOID_ELEMENT = /^<(?:br|hr|img|input|wbr)\b/i;
+const BLOCK_TAG = /^<\/?(?:p|h[1-6]|li|ul|ol|blockquote|pre|div|br|hr|td|th)\b/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find whole-word, case-insensitive occurrences of any of the names in the
+ * content's text, skipping text that is already a link (wiki link marks,
+ * embeds, @mentions and raw [[links]]). Handles TipTap HTML and markdown.
+ */
+function scanMentions(content: string, names: string[]) {
+  const plain: string[] = [];
+  let plainLength = 0;
+  const appendPlain = (text: string) => {
+    plain.push(text);
+    plainLength += text.length;
+  };
+
+  const variants = Array.from(
+    new Set(names.flatMap((name) => [name, escapeHtml(name)]))
+  ).sort((a, b) => b.length - a.length); // Longest first so names inside others lose
+  if (variants.length === 0) return { matches: [], plain: "" };
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${variants.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu"
+  );
+
+  const isHtml = /<\/?[a-z][^>]*>/i.test(content);
+  const parts = isHtml ? content.split(/(<[^>]*>)/) : [content];
+  const open: boolean[] = []; // Open elements, true for links
+  const matches: MentionMatch[] = [];
+  let offset = 0;
+
+  for (const part of parts) {
+    if (isHtml && part.startsWith("<")) {
+      if (part.startsWith("</")) open.pop();
+      else if (!VOID_ELEMENT.test(part) && !part.endsWith("/>")) {
+        open.push(LINK_ELEMENT.test(part));
+      }
+      if (
+        BLOCK_TAG.test(part) &&
+        plainLength > 0 &&
+        !plain[plain.length - 1].endsWith(" ")
+      ) {
+        appendPlain(" ");
+      }
+    } else if (part && !open.includes(true)) {
+      const rawLinks = Array.from(part.matchAll(/\[\[[^\]]*\]\]/g)).map((link) => ({
+        start: link.index,
+        end: link.index + link[0].length,
+      }));
+      for (const match of part.matchAll(pattern)) {
+        const end = match.index + match[0].length;
+        if (rawLinks.some((link) => match.index < link.end && end > link.start)) continue;
+
+        const plainStart = plainLength + decodeEntities(part.slice(0, match.index)).length;
+        matches.push({
+          start: offset + match.index,
+          end: offset + end,
+          plainStart,
+          plainEnd: plainStart + decodeEntities(match[0]).length,
+        });
+      }
+      appendPlain(isHtml ? decodeEntities(part) : part);
+    } else if (part) {
+      appendPlain(isHtml ? decodeEntities(part) : part);
+    }
+    offset += part.length;
+  }
+
+  return { matches, plain: plain.join("") };
+}
+
+// A window of plain text around a mention, with the mention highlighted
+function mentionSnippet(plain: string, match: MentionMatch): Snippet {
+  // Start at a word boundary a little before the mention
+  let start = Math.max(0, match.plainStart - SNIPPET_CONTEXT);
+  if (start > 0) {
+    const space = plain.indexOf(" ", start);
+    start = space === -1 || space >= match.plainStart ? start : space + 1;
+  }
+  const end = Math.min(plain.length, Math.max(start + SNIPPET_LENGTH, match.plainEnd));
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < plain.length ? "…" : "";
+  return {
+    text: prefix + plain.slice(start, end) + suffix,
+    highlights: [
+      {
+        start: match.plainStart - start + prefix.length,
+        end: match.plainEnd - start + prefix.length,
+      },
+    ],
+  };
+}
+
+// Places in the content that name a note (by title or alias) without linking it
+export function findUnlinkedMentions(content: string, names: string[]): UnlinkedMention[] {
+  const { matches, plain } = scanMentions(content, names);
+  return matches.map((match, index) => ({
+    index,
+    text: decodeEntities(content.slice(match.start, match.end)),
+    snippet: mentionSnippet(plain, match),
+  }));
+}
+
+// Turn the index-th unlinked mention into a wiki link to title. Returns null
+// when that mention isn't the expected text (the content changed since it was
+// found).
+export function wrapMention(
+  content: string,
+  names: string[],
+  index: number,
+  expectedText: string,
+  title: string
+): string | null {
+  const match = scanMentions(content, names).matches[index];
+  if (!match) return null;
+
+  const text = content.slice(match.start, match.end);
+  if (decodeEntities(text) !== expectedText) return null;
+  // Same HTML the editor's WikiLink mark parses; markdown gets [[text]], which
+  // resolves by title or alias
+  const link = /<\/?[a-z][^>]*>/i.test(content)
+    ? `<span data-wiki-link="true" data-title="${escapeHtml(title)}">${text}</span>`
+    : `[[${text}]]`;
+  return content.slice(0, match.start) + link + content.slice(match.end);
+}
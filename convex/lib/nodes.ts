@@ -0,0 +1,18 @@
+import { v } from "convex/values";
+
+export const nodeType = v.union(
+  v.literal("text"),
+  v.literal("chat_reference"),
+  v.literal("note")
+);
+
+// Where a node came from (Zettelkasten source tracking)
+export const nodeSourceType = v.union(
+  v.literal("manual"),
+  v.literal("voice"),
+  v.literal("chat"),
+  v.literal("ai_extracted"),
+  v.literal("web"),
+  v.literal("youtube"),
+  v.literal("readwise")
+);
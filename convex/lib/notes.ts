@@ -0,0 +1,167 @@
+// Decode the handful of HTML entities TipTap emits in text content
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Extract title from note content (first block for HTML, first line for markdown)
+export function extractNoteTitle(content: string): string {
+  // TipTap saves HTML without newlines, so use the first block element
+  const firstBlock = content.match(
+    /<(h[1-6]|p|li|blockquote)[^>]*>([\s\S]*?)<\/\1>/i
+  );
+  const firstLine = firstBlock ? firstBlock[2] : content.split("\n")[0];
+
+  const title = decodeEntities(firstLine.replace(/<[^>]*>/g, "")) // Remove HTML tags
+    .replace(/^#+\s*/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return title.slice(0, 200) || "Untitled";
+}
+
+// Normalize a title for case-insensitive lookups via the by_user_title index
+export function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Title fields stored on canvasNodes, derived from content
+export function titleFields(content: string) {
+  const title = extractNoteTitle(content);
+  return { title, normalizedTitle: normalizeTitle(title) };
+}
+
+// Escape text for use inside HTML content or attribute values
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A wiki link target: [[Note]], [[Note#Heading]] or [[Note^block-id]]
+export interface WikiLinkRef {
+  title: string;
+  heading?: string;
+  block?: string;
+}
+
+// Split a link target like "Note#Heading" or "Note^block-id" into its parts
+export function parseWikiLinkTarget(target: string): WikiLinkRef {
+  const clean = (text: string) => decodeEntities(text).replace(/\s+/g, " ").trim();
+  const match = target.match(/^([^#^]*)(?:#([^^]*))?(?:\^([\w-]+))?$/);
+  if (!match) return { title: clean(target) };
+
+  return {
+    title: clean(match[1]),
+    heading: match[2] ? clean(match[2]) : undefined,
+    block: match[3],
+  };
+}
+
+// Every wiki link in the content (raw [[text]] and HTML data-title attributes),
+// de-duplicated ignoring case
+export function extractWikiLinkRefs(content: string): WikiLinkRef[] {
+  const refs = new Map<string, WikiLinkRef>();
+  const add = (ref: WikiLinkRef) => {
+    if (!ref.title) return;
+    const key = [normalizeTitle(ref.title), ref.heading?.toLowerCase(), ref.block]
+      .join("|");
+    if (!refs.has(key)) refs.set(key, ref);
+  };
+
+  // Extract from raw [[text]] patterns
+  const rawRegex = /\[\[([^\]]+)\]\]/g;
+  let match;
+  while ((match = rawRegex.exec(content)) !== null) {
+    add(parseWikiLinkTarget(match[1]));
+  }
+
+  // Also extract from HTML data-title attributes (TipTap saves as HTML)
+  const htmlRegex = /<[a-z][^>]*\bdata-title="([^"]+)"[^>]*>/gi;
+  while ((match = htmlRegex.exec(content)) !== null) {
+    const tag = match[0];
+    const heading = tag.match(/\bdata-heading="([^"]+)"/)?.[1];
+    const block = tag.match(/\bdata-block="([^"]+)"/)?.[1];
+    add({
+      title: parseWikiLinkTarget(match[1]).title,
+      heading: heading ? decodeEntities(heading) : undefined,
+      block,
+    });
+  }
+
+  return Array.from(refs.values());
+}
+
+// Wiki link targets (note titles) as written, de-duplicated ignoring case
+export function extractWikiLinkTargets(content: string): string[] {
+  const titles = new Map<string, string>();
+  for (const { title } of extractWikiLinkRefs(content)) {
+    const key = normalizeTitle(title);
+    if (!titles.has(key)) titles.set(key, title);
+  }
+  return Array.from(titles.values());
+}
+
+// Helper to extract wiki links from content, lowercased for matching
+export function extractWikiLinksFromContent(content: string): string[] {
+  return extractWikiLinkTargets(content).map((link) => link.toLowerCase());
+}
+
+// Rewrite [[fromTitle]] links (raw text and data-title attributes) to point at toTitle
+export function rewriteWikiLinks(
+  content: string,
+  fromTitle: string,
+  toTitle: string
+): string {
+  const isHtml = /<\/?[a-z][^>]*>/i.test(content);
+  // Titles may be stored raw (markdown) or HTML-escaped (TipTap)
+  const variants = Array.from(new Set([fromTitle, escapeHtml(fromTitle)]));
+
+  const attribute = `data-title="${escapeHtml(toTitle)}"`;
+  const rawTitle = isHtml ? escapeHtml(toTitle) : toTitle;
+
+  let result = content;
+  for (const variant of variants) {
+    const pattern = escapeRegExp(variant);
+    // Function replacements so "$" in titles isn't treated as a pattern
+    result = result
+      .replace(new RegExp(`data-title="${pattern}"`, "gi"), () => attribute)
+      // Keep any #heading or ^block suffix
+      .replace(
+        new RegExp(`\\[\\[${pattern}((?:[#^][^\\]]*)?)\\]\\]`, "gi"),
+        (_, suffix: string) => `[[${rawTitle}${suffix}]]`
+      );
+  }
+  return result;
+}
+
+// Replace the title (first block / first line) of a note's content
+export function replaceNoteTitle(content: string, newTitle: string): string {
+  const firstBlock = content.match(
+    /<(h[1-6]|p|li|blockquote)([^>]*)>([\s\S]*?)<\/\1>/i
+  );
+  if (firstBlock && firstBlock.index !== undefined) {
+    const [whole, tag, attrs] = firstBlock;
+    return (
+      content.slice(0, firstBlock.index) +
+      `<${tag}${attrs}>${escapeHtml(newTitle)}</${tag}>` +
+      content.slice(firstBlock.index + whole.length)
+    );
+  }
+
+  // Markdown / plain text: keep the heading marker if there was one
+  const [firstLine, ...rest] = content.split("\n");
+  const heading = firstLine.match(/^#+\s*/)?.[0] ?? "";
+  return [`${heading}${newTitle}`, ...rest].join("\n");
+}
@@ -0,0 +1,181 @@
+import { v, Infer } from "convex/values";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+
+// Types a note property can have
+export const propertyType = v.union(
+  v.literal("text"),
+  v.literal("number"),
+  v.literal("date"),
+  v.literal("checkbox"),
+  v.literal("link"),
+  v.literal("list")
+);
+
+export type PropertyType = Infer<typeof propertyType>;
+
+// Stored values. Text, date ("YYYY-MM-DD") and link (a note title) are strings.
+export const propertyValue = v.union(
+  v.string(),
+  v.number(),
+  v.boolean(),
+  v.array(v.string())
+);
+
+export type PropertyValue = Infer<typeof propertyValue>;
+
+// Comparisons supported when filtering notes by a property
+export const propertyOperator = v.union(
+  v.literal("eq"),
+  v.literal("neq"),
+  v.literal("lt"),
+  v.literal("lte"),
+  v.literal("gt"),
+  v.literal("gte"),
+  v.literal("contains")
+);
+
+export type PropertyOperator = Infer<typeof propertyOperator>;
+
+// Property keys match ignoring case and extra whitespace
+export function normalizePropertyKey(key: string) {
+  return key.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Throw unless the value has the shape its type expects
+export function validatePropertyValue(type: PropertyType, value: PropertyValue) {
+  const valid =
+    type === "number"
+      ? typeof value === "number" && Number.isFinite(value)
+      : type === "checkbox"
+        ? typeof value === "boolean"
+        : type === "list"
+          ? Array.isArray(value)
+          : type === "date"
+            ? typeof value === "string" && DATE_PATTERN.test(value)
+            : typeof value === "string";
+
+  if (!valid) {
+    throw new Error(`Invalid value for ${type} property`);
+  }
+}
+
+// Whether a stored value passes a filter. Values of another type never match.
+export function matchesPropertyFilter(
+  value: PropertyValue,
+  op: PropertyOperator,
+  target: PropertyValue
+) {
+  if (op === "contains") {
+    if (Array.isArray(value)) {
+      return value.some((item) => item.toLowerCase() === String(target).toLowerCase());
+    }
+    return String(value).toLowerCase().includes(String(target).toLowerCase());
+  }
+
+  if (Array.isArray(value) || Array.isArray(target)) {
+    const equal = JSON.stringify(value) === JSON.stringify(target);
+    return op === "eq" ? equal : op === "neq" ? !equal : false;
+  }
+  if (op === "neq") return value !== target;
+  if (typeof value !== typeof target) return false;
+
+  switch (op) {
+    case "eq":
+      return value === target;
+    case "lt":
+      return value < target;
+    case "lte":
+      return value <= target;
+    case "gt":
+      return value > target;
+    case "gte":
+      return value >= target;
+  }
+}
+
+export async function getNodeProperties(
+  ctx: QueryCtx,
+  nodeId: Id<"canvasNodes">
+) {
+  const properties = await ctx.db
+    .query("noteProperties")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .collect();
+  return properties.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Create or update one property of a node
+export async function setNodeProperty(
+  ctx: MutationCtx,
+  userId: string,
+  nodeId: Id<"canvasNodes">,
+  property: { key: string; type: PropertyType; value: PropertyValue }
+) {
+  const key = property.key.replace(/\s+/g, " ").trim();
+  if (!key) throw new Error("Property name is required");
+  validatePropertyValue(property.type, property.value);
+
+  const normalizedKey = normalizePropertyKey(key);
+  const existing = await ctx.db
+    .query("noteProperties")
+    .withIndex("by_node_key", (q) =>
+      q.eq("nodeId", nodeId).eq("normalizedKey", normalizedKey)
+    )
+    .first();
+
+  const now = Date.now();
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      key,
+      type: property.type,
+      value: property.value,
+      updatedAt: now,
+    });
+    return existing._id;
+  }
+
+  return await ctx.db.insert("noteProperties", {
+    userId,
+    nodeId,
+    key,
+    normalizedKey,
+    type: property.type,
+    value: property.value,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Remove all properties of a node (used when the node is purged)
+export async function removeNodeProperties(
+  ctx: MutationCtx,
+  nodeId: Id<"canvasNodes">
+) {
+  const properties = await getNodeProperties(ctx, nodeId);
+  for (const property of properties) {
+    await ctx.db.delete(property._id);
+  }
+}
+
+// Move a node's properties onto another node (used when merging notes). Keys
+// the other node already has keep its value.
+export async function moveNodeProperties(
+  ctx: MutationCtx,
+  fromId: Id<"canvasNodes">,
+  toId: Id<"canvasNodes">
+) {
+  const existing = new Set(
+    (await getNodeProperties(ctx, toId)).map((property) => property.normalizedKey)
+  );
+
+  for (const property of await getNodeProperties(ctx, fromId)) {
+    if (existing.has(property.normalizedKey)) {
+      await ctx.db.delete(property._id);
+    } else {
+      await ctx.db.patch(property._id, { nodeId: toId });
+    }
+  }
+}
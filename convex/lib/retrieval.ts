@@ -0,0 +1,48 @@
+import { v } from "convex/values";
+
+export const retrievalOptions = v.object({
+  minSimilarity: v.optional(v.number()), // Vector hits below this are dropped
+  minKeywordMatch: v.optional(v.number()), // Share of query terms a keyword hit must contain
+  tokenBudget: v.optional(v.number()), // Total tokens of note content returned
+  maxNoteTokens: v.optional(v.number()), // Cap per retrieved (not mentioned) note
+  maxNotes: v.optional(v.number()), // Retrieved notes, on top of mentioned ones
+  recentBoost: v.optional(v.number()), // Score multiplier bonus for a note edited just now
+  recentWindowMs: v.optional(v.number()), // How long the recency boost takes to fade
+});
+
+export const DEFAULT_RETRIEVAL_OPTIONS = {
+  minSimilarity: 0.3,
+  minKeywordMatch: 0.5,
+  tokenBudget: 2000,
+  maxNoteTokens: 400,
+  maxNotes: 5,
+  recentBoost: 0.5,
+  recentWindowMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+export type RetrievalOptions = typeof DEFAULT_RETRIEVAL_OPTIONS;
+
+// Rough token count (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Cut text to a token budget at a word boundary
+export function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * 4;
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars);
+  const space = cut.lastIndexOf(" ");
+  return `${space > maxChars / 2 ? cut.slice(0, space) : cut}…`;
+}
+
+// Multiplier for a note's score, fading linearly from 1 + recentBoost to 1
+export function recencyMultiplier(
+  updatedAt: number,
+  now: number,
+  options: RetrievalOptions
+): number {
+  const age = Math.max(0, now - updatedAt);
+  if (age >= options.recentWindowMs) return 1;
+  return 1 + options.recentBoost * (1 - age / options.recentWindowMs);
+}
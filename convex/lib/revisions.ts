@@ -0,0 +1,87 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+export type RevisionReason = "edit" | "rename" | "restore" | "merge";
+
+// Minimum time between automatic snapshots of the same node
+const REVISION_THROTTLE_MS = 5 * 60 * 1000;
+
+// Retention policy: always keep the newest few, drop anything past the cap or too old
+const MIN_REVISIONS_KEPT = 5;
+const MAX_REVISIONS_PER_NODE = 50;
+const REVISION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Big rewrites (e.g. pasting over a note) are snapshotted even inside the throttle window
+function isLargeChange(before: string, after: string): boolean {
+  const delta = Math.abs(after.length - before.length);
+  return delta > Math.max(200, before.length * 0.3);
+}
+
+async function pruneRevisions(ctx: MutationCtx, nodeId: Id<"canvasNodes">) {
+  const revisions = await ctx.db
+    .query("nodeRevisions")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .order("desc")
+    .collect();
+
+  const cutoff = Date.now() - REVISION_MAX_AGE_MS;
+  for (const [index, revision] of revisions.entries()) {
+    if (index < MIN_REVISIONS_KEPT) continue;
+    if (index >= MAX_REVISIONS_PER_NODE || revision.createdAt < cutoff) {
+      await ctx.db.delete(revision._id);
+    }
+  }
+}
+
+// Snapshot a node's current content before it gets overwritten.
+// Edits are throttled; renames and restores always snapshot.
+export async function snapshotRevision(
+  ctx: MutationCtx,
+  node: Doc<"canvasNodes">,
+  reason: RevisionReason,
+  nextContent?: string
+) {
+  const latest = await ctx.db
+    .query("nodeRevisions")
+    .withIndex("by_node", (q) => q.eq("nodeId", node._id))
+    .order("desc")
+    .first();
+
+  // Nothing new since the last snapshot
+  if (latest && latest.content === node.content) return;
+
+  if (
+    reason === "edit" &&
+    latest &&
+    Date.now() - latest.createdAt < REVISION_THROTTLE_MS &&
+    !(nextContent !== undefined && isLargeChange(node.content, nextContent))
+  ) {
+    return;
+  }
+
+  await ctx.db.insert("nodeRevisions", {
+    userId: node.userId,
+    nodeId: node._id,
+    content: node.content,
+    title: node.title,
+    reason,
+    createdAt: Date.now(),
+  });
+
+  await pruneRevisions(ctx, node._id);
+}
+
+// Remove every revision of a node (used when the node is deleted)
+export async function removeNodeRevisions(
+  ctx: MutationCtx,
+  nodeId: Id<"canvasNodes">
+) {
+  const revisions = await ctx.db
+    .query("nodeRevisions")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .collect();
+
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+}
@@ -0,0 +1,177 @@
+import { v, Infer } from "convex/values";
+import { decodeEntities } from "./notes";
+import { nodeSourceType, nodeType } from "./nodes";
+
+export const searchMode = v.union(
+  v.literal("keyword"),
+  v.literal("semantic"),
+  v.literal("hybrid")
+);
+
+// Optional filters for related-content search. Node type and source filters
+// leave out messages, which have neither.
+export const relatedFilters = v.object({
+  types: v.optional(v.array(nodeType)),
+  sourceTypes: v.optional(v.array(nodeSourceType)),
+  createdAfter: v.optional(v.number()),
+  createdBefore: v.optional(v.number()),
+});
+
+export type RelatedFilters = Infer<typeof relatedFilters>;
+
+export function hasRelatedFilters(filters: RelatedFilters | undefined) {
+  return Boolean(
+    filters?.types?.length ||
+      filters?.sourceTypes?.length ||
+      filters?.createdAfter !== undefined ||
+      filters?.createdBefore !== undefined
+  );
+}
+
+export function includesMessages(filters: RelatedFilters | undefined) {
+  return !filters?.types?.length && !filters?.sourceTypes?.length;
+}
+
+function matchesDateRange(createdAt: number, filters: RelatedFilters) {
+  return (
+    (filters.createdAfter === undefined || createdAt >= filters.createdAfter) &&
+    (filters.createdBefore === undefined || createdAt < filters.createdBefore)
+  );
+}
+
+export function matchesNodeFilters(
+  node: { type: string; sourceType?: string; createdAt: number },
+  filters: RelatedFilters | undefined
+) {
+  if (!filters) return true;
+  return (
+    (!filters.types?.length || filters.types.some((type) => type === node.type)) &&
+    (!filters.sourceTypes?.length ||
+      filters.sourceTypes.some((source) => source === (node.sourceType ?? "manual"))) &&
+    matchesDateRange(node.createdAt, filters)
+  );
+}
+
+export function matchesMessageFilters(
+  message: { createdAt: number },
+  filters: RelatedFilters | undefined
+) {
+  if (!filters) return true;
+  return includesMessages(filters) && matchesDateRange(message.createdAt, filters);
+}
+
+export interface Snippet {
+  text: string;
+  highlights: { start: number; end: number }[]; // Offsets into text
+}
+
+// Convex search indexes only consider this many query terms
+export const MAX_SEARCH_TERMS = 16;
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_CONTEXT = 60; // Characters shown before the first match
+
+// Plain text of note (HTML or markdown) or message content
+export function toPlainText(content: string): string {
+  return decodeEntities(content.replace(/<[^>]*>/g, " ")) // Block tags become spaces
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Fields indexed for full-text search: the text of the content without HTML
+// tags and attributes, which would otherwise match words like "link" or "title"
+export function searchFields(content: string) {
+  return { searchText: toPlainText(content) };
+}
+
+// Lowercased words of a search query
+export function queryTerms(query: string): string[] {
+  return Array.from(
+    new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Terms shorter than this (e.g. "is", "a") don't count towards a match
+const MIN_MATCH_TERM_LENGTH = 3;
+
+// Share (0-1) of the query's terms found at word starts in the content
+export function termCoverage(content: string, query: string): number {
+  const allTerms = queryTerms(query).slice(0, MAX_SEARCH_TERMS);
+  const longTerms = allTerms.filter((term) => term.length >= MIN_MATCH_TERM_LENGTH);
+  const terms = longTerms.length > 0 ? longTerms : allTerms;
+  if (terms.length === 0) return 0;
+
+  const text = toPlainText(content).toLowerCase();
+  const matched = terms.filter((term) =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}`, "u").test(text)
+  );
+  return matched.length / terms.length;
+}
+
+/**
+ * A window of the content around the first query match, with the offsets of
+ * every match inside it. Terms match at word starts, like the search index's
+ * prefix matching. Content with no match gives its opening text.
+ */
+export function buildSnippet(content: string, query: string): Snippet {
+  const text = toPlainText(content);
+  const terms = queryTerms(query);
+  if (terms.length === 0) {
+    return { text: text.slice(0, SNIPPET_LENGTH), highlights: [] };
+  }
+
+  // Longest terms first so "note" doesn't cut "notebook" short
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|")})`,
+    "giu"
+  );
+  const matches = Array.from(text.matchAll(pattern));
+  const first = matches[0]?.index ?? 0;
+
+  // Start at a word boundary a little before the first match
+  let start = Math.max(0, first - SNIPPET_CONTEXT);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space === -1 || space >= first ? start : space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const highlights = matches
+    .filter((match) => match.index >= start && match.index + match[0].length <= end)
+    .map((match) => ({
+      start: match.index - start + prefix.length,
+      end: match.index + match[0].length - start + prefix.length,
+    }));
+
+  return { text: prefix + text.slice(start, end) + suffix, highlights };
+}
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion: each item scores
+ * 1 / (k + rank) in every list it appears in. Items keep the first copy seen.
+ */
+export function reciprocalRankFusion<T>(
+  lists: T[][],
+  getKey: (item: T) => string,
+  k = 60
+): { item: T; score: number }[] {
+  const fused = new Map<string, { item: T; score: number }>();
+  for (const list of lists) {
+    list.forEach((item, index) => {
+      const key = getKey(item);
+      const entry = fused.get(key) ?? { item, score: 0 };
+      entry.score += 1 / (k + index + 1);
+      fused.set(key, entry);
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
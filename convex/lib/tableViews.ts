@@ -0,0 +1,15 @@
+import { v } from "convex/values";
+
+// A table view definition: visible columns, sort and per-column filters.
+// Columns are ids like "title", "backlinks" or "property:status".
+export const tableViewFields = {
+  columns: v.array(v.string()),
+  sort: v.optional(
+    v.object({
+      column: v.string(),
+      direction: v.union(v.literal("asc"), v.literal("desc")),
+    })
+  ),
+  // Filter text per column, e.g. "draft" or ">= 3" (see src/lib/note-table.ts)
+  filters: v.array(v.object({ column: v.string(), value: v.string() })),
+};
@@ -0,0 +1,164 @@
+import { MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+
+export type TagSource = "extracted" | "inline" | "imported";
+
+// Normalize a tag name: strip leading "#", lowercase, spaces become dashes
+export function normalizeTag(name: string): string {
+  return name
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-");
+}
+
+// Extract #tags from note content (handles both markdown and TipTap HTML)
+export function extractHashtags(content: string): string[] {
+  const text = content
+    .replace(/<[^>]*>/g, " ") // Remove HTML tags (and their attributes)
+    .replace(/&nbsp;/g, " ");
+
+  const tags: string[] = [];
+  // Must start with a letter so "# Heading" and "#1" are not tags
+  const regex = /(?:^|\s)#([a-zA-Z][\w/-]*)/g;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const tag = normalizeTag(match[1]);
+    if (!tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  return tags;
+}
+
+async function getOrCreateTag(
+  ctx: MutationCtx,
+  userId: string,
+  name: string
+): Promise<Id<"tags">> {
+  const existing = await ctx.db
+    .query("tags")
+    .withIndex("by_user_name", (q) => q.eq("userId", userId).eq("name", name))
+    .unique();
+  if (existing) return existing._id;
+
+  return await ctx.db.insert("tags", {
+    userId,
+    name,
+    createdAt: Date.now(),
+  });
+}
+
+// Delete a tag once nothing references it anymore
+async function deleteTagIfUnused(ctx: MutationCtx, tagId: Id<"tags">) {
+  const remaining = await ctx.db
+    .query("nodeTags")
+    .withIndex("by_tag", (q) => q.eq("tagId", tagId))
+    .first();
+  if (!remaining) {
+    await ctx.db.delete(tagId);
+  }
+}
+
+// Attach tags to a node, skipping ones it already has
+export async function addNodeTags(
+  ctx: MutationCtx,
+  userId: string,
+  nodeId: Id<"canvasNodes">,
+  names: string[],
+  source: TagSource
+) {
+  const existing = await ctx.db
+    .query("nodeTags")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .collect();
+  const existingTagIds = new Set(existing.map((nt) => nt.tagId));
+
+  for (const rawName of names) {
+    const name = normalizeTag(rawName);
+    if (!name) continue;
+
+    const tagId = await getOrCreateTag(ctx, userId, name);
+    if (existingTagIds.has(tagId)) continue;
+
+    await ctx.db.insert("nodeTags", {
+      userId,
+      nodeId,
+      tagId,
+      source,
+      createdAt: Date.now(),
+    });
+    existingTagIds.add(tagId);
+  }
+}
+
+// Make the node's inline tags match the #tags currently in its content
+export async function syncInlineTags(
+  ctx: MutationCtx,
+  userId: string,
+  nodeId: Id<"canvasNodes">,
+  content: string
+) {
+  const wanted = extractHashtags(content);
+
+  const inlineTags = await ctx.db
+    .query("nodeTags")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .filter((q) => q.eq(q.field("source"), "inline"))
+    .collect();
+
+  // Remove inline tags that are no longer in the content
+  for (const nodeTag of inlineTags) {
+    const tag = await ctx.db.get(nodeTag.tagId);
+    if (!tag || !wanted.includes(tag.name)) {
+      await ctx.db.delete(nodeTag._id);
+      await deleteTagIfUnused(ctx, nodeTag.tagId);
+    }
+  }
+
+  await addNodeTags(ctx, userId, nodeId, wanted, "inline");
+}
+
+// Remove all tag links for a node (used when the node is deleted)
+export async function removeNodeTags(
+  ctx: MutationCtx,
+  nodeId: Id<"canvasNodes">
+) {
+  const nodeTags = await ctx.db
+    .query("nodeTags")
+    .withIndex("by_node", (q) => q.eq("nodeId", nodeId))
+    .collect();
+
+  for (const nodeTag of nodeTags) {
+    await ctx.db.delete(nodeTag._id);
+    await deleteTagIfUnused(ctx, nodeTag.tagId);
+  }
+}
+
+// Move a node's tags onto another node (used when merging notes)
+export async function moveNodeTags(
+  ctx: MutationCtx,
+  fromId: Id<"canvasNodes">,
+  toId: Id<"canvasNodes">
+) {
+  const target = await ctx.db
+    .query("nodeTags")
+    .withIndex("by_node", (q) => q.eq("nodeId", toId))
+    .collect();
+  const targetTagIds = new Set(target.map((nt) => nt.tagId));
+
+  const nodeTags = await ctx.db
+    .query("nodeTags")
+    .withIndex("by_node", (q) => q.eq("nodeId", fromId))
+    .collect();
+
+  for (const nodeTag of nodeTags) {
+    if (targetTagIds.has(nodeTag.tagId)) {
+      await ctx.db.delete(nodeTag._id);
+    } else {
+      await ctx.db.patch(nodeTag._id, { nodeId: toId });
+      targetTagIds.add(nodeTag.tagId);
+    }
+  }
+}
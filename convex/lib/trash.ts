@@ -0,0 +1,38 @@
+import { MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { removeNodeTags } from "./tags";
+import { removeNodeRevisions } from "./revisions";
+import { removeNodePlacements } from "./boards";
+import { removeNodeAliases } from "./aliases";
+import { removeNodeProperties } from "./properties";
+import { removeNodeChunks } from "./chunks";
+
+// How long nodes stay in the trash before the purge job deletes them
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Permanently delete a node with its edges, tags, properties, revisions, aliases,
+// board placements and embedded chunks
+export async function purgeNode(ctx: MutationCtx, nodeId: Id<"canvasNodes">) {
+  const sourceEdges = await ctx.db
+    .query("canvasEdges")
+    .withIndex("by_source", (q) => q.eq("source", nodeId))
+    .collect();
+
+  const targetEdges = await ctx.db
+    .query("canvasEdges")
+    .withIndex("by_target", (q) => q.eq("target", nodeId))
+    .collect();
+
+  for (const edge of [...sourceEdges, ...targetEdges]) {
+    await ctx.db.delete(edge._id);
+  }
+
+  await removeNodeTags(ctx, nodeId);
+  await removeNodeRevisions(ctx, nodeId);
+  await removeNodePlacements(ctx, nodeId);
+  await removeNodeAliases(ctx, nodeId);
+  await removeNodeProperties(ctx, nodeId);
+  await removeNodeChunks(ctx, nodeId);
+
+  await ctx.db.delete(nodeId);
+}
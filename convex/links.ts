@@ -0,0 +1,202 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { placeNode } from "./lib/boards";
+import { getNodeAliases, resolveNoteTitle } from "./lib/aliases";
+import { findUnlinkedMentions, wrapMention } from "./lib/mentions";
+import { snapshotRevision } from "./lib/revisions";
+import { searchFields } from "./lib/search";
+import {
+  escapeHtml,
+  extractNoteTitle,
+  extractWikiLinksFromContent,
+  extractWikiLinkTargets,
+  normalizeTitle,
+  titleFields,
+} from "./lib/notes";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+// Names a note can be mentioned by: its title and aliases
+async function getMentionNames(ctx: QueryCtx, node: Doc<"canvasNodes">) {
+  const title = node.title ?? extractNoteTitle(node.content);
+  const aliases = await getNodeAliases(ctx, node._id);
+  return [title === "Untitled" ? "" : title, ...aliases.map((alias) => alias.alias)]
+    .filter((name) => name.trim());
+}
+
+// Wiki link targets that don't resolve to any note, with the notes linking to them
+export const listDanglingLinks = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const nodes = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).eq("deletedAt", undefined)
+      )
+      .collect();
+
+    const existingTitles = new Set(
+      nodes
+        .filter((node) => node.type === "note" && node.normalizedTitle)
+        .map((node) => node.normalizedTitle)
+    );
+
+    // Links through an alias resolve too
+    const nodeIds = new Set(nodes.map((node) => node._id));
+    const aliases = await ctx.db
+      .query("noteAliases")
+      .withIndex("by_user_alias", (q) => q.eq("userId", identity.subject))
+      .collect();
+    for (const alias of aliases) {
+      if (nodeIds.has(alias.nodeId)) existingTitles.add(alias.normalizedAlias);
+    }
+
+    const dangling = new Map<
+      string,
+      {
+        title: string;
+        sources: { _id: Id<"canvasNodes">; title: string }[];
+      }
+    >();
+
+    for (const node of nodes) {
+      for (const target of extractWikiLinkTargets(node.content)) {
+        const key = normalizeTitle(target);
+        if (existingTitles.has(key)) continue;
+
+        const entry = dangling.get(key) ?? { title: target, sources: [] };
+        entry.sources.push({ _id: node._id, title: node.title ?? "Untitled" });
+        dangling.set(key, entry);
+      }
+    }
+
+    return Array.from(dangling.values())
+      .map((entry) => ({ ...entry, count: entry.sources.length }))
+      .sort((a, b) => b.count - a.count || a.title.localeCompare(b.title));
+  },
+});
+
+// Create empty notes for dangling link targets. Titles that already have a note
+// are skipped, so this is safe to call with a stale list.
+export const createStubNotes = mutation({
+  args: { titles: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const now = Date.now();
+    const created: Id<"canvasNodes">[] = [];
+
+    for (const rawTitle of args.titles) {
+      const title = rawTitle.replace(/\s+/g, " ").trim();
+      if (!title) continue;
+
+      if (await resolveNoteTitle(ctx, identity.subject, title)) continue;
+
+      const content = `<h1>${escapeHtml(title)}</h1><p></p>`;
+      const nodeId = await ctx.db.insert("canvasNodes", {
+        userId: identity.subject,
+        type: "note",
+        content,
+        ...titleFields(content),
+        ...searchFields(content),
+        x: 0,
+        y: 0,
+        width: 300,
+        height: 150,
+        sourceType: "manual",
+        createdAt: now,
+        updatedAt: now,
+      });
+      await placeNode(ctx, identity.subject, nodeId, { x: 0, y: 0 });
+      created.push(nodeId);
+    }
+
+    return created;
+  },
+});
+
+// Notes that mention this note's title or an alias in plain text without
+// linking to it, with a snippet around each mention
+export const getUnlinkedMentions = query({
+  args: { nodeId: v.id("canvasNodes") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const target = await ctx.db.get(args.nodeId);
+    if (!target || target.userId !== identity.subject || target.deletedAt) return [];
+
+    const names = await getMentionNames(ctx, target);
+    if (names.length === 0) return [];
+    // TipTap HTML escapes &, < and >, so look for the escaped names too
+    const lowerNames = Array.from(
+      new Set(names.flatMap((name) => [name, escapeHtml(name)]))
+    ).map((name) => name.toLowerCase());
+
+    const nodes = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).eq("deletedAt", undefined)
+      )
+      .collect();
+
+    return nodes
+      .filter((node) => node.type === "note" && node._id !== target._id)
+      // Cheap check before scanning the content
+      .filter((node) => {
+        const content = node.content.toLowerCase();
+        return lowerNames.some((name) => content.includes(name));
+      })
+      .map((node) => ({
+        _id: node._id,
+        title: node.title ?? extractNoteTitle(node.content),
+        mentions: findUnlinkedMentions(node.content, names),
+      }))
+      .filter((note) => note.mentions.length > 0)
+      .sort((a, b) => b.mentions.length - a.mentions.length || a.title.localeCompare(b.title));
+  },
+});
+
+// Link one unlinked mention (by its index and text from getUnlinkedMentions) to
+// the note it names, wrapping it in a wiki link
+export const linkMention = mutation({
+  args: {
+    sourceId: v.id("canvasNodes"),
+    targetId: v.id("canvasNodes"),
+    index: v.number(),
+    text: v.string(), // Mention as found, to check the content hasn't changed
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const source = await ctx.db.get(args.sourceId);
+    const target = await ctx.db.get(args.targetId);
+    if (
+      !source ||
+      !target ||
+      source.userId !== identity.subject ||
+      target.userId !== identity.subject ||
+      source.deletedAt ||
+      target.deletedAt
+    ) {
+      throw new Error("Not found");
+    }
+
+    const title = target.title ?? extractNoteTitle(target.content);
+    const names = await getMentionNames(ctx, target);
+    const content = wrapMention(source.content, names, args.index, args.text, title);
+    if (content === null) throw new Error("Mention not found");
+
+    await snapshotRevision(ctx, source, "edit", content);
+    await ctx.db.patch(source._id, {
+      content,
+      ...titleFields(content),
+      ...searchFields(content),
+      outgoingLinks: extractWikiLinksFromContent(content),
+      updatedAt: Date.now(),
+    });
+  },
+});
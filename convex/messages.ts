@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { searchFields } from "./lib/search";
 
 export const list = query({
   args: { conversationId: v.id("conversations") },
@@ -66,9 +67,11 @@ export const send = mutation({
     });
 
     return await ctx.db.insert("messages", {
+      userId: identity.subject,
       conversationId: args.conversationId,
       role: args.role,
       content: args.content,
+      ...searchFields(args.content),
       createdAt: now,
     });
   },
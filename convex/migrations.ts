@@ -0,0 +1,190 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { titleFields } from "./lib/notes";
+import { searchFields } from "./lib/search";
+import { findMatchingEdges, parseSimilarityLabel } from "./lib/edges";
+
+// One-time data migrations. Run from the Convex dashboard or CLI, e.g.
+//   npx convex run migrations:backfillNoteTitles
+// Each batch schedules the next one until the whole table has been visited.
+
+const BATCH_SIZE = 100;
+
+// Store title/normalizedTitle on nodes created before titles were tracked
+export const backfillNoteTitles = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<void> => {
+    const page = await ctx.db
+      .query("canvasNodes")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const node of page.page) {
+      if (node.title === undefined || node.normalizedTitle === undefined) {
+        await ctx.db.patch(node._id, titleFields(node.content));
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillNoteTitles, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+// Store the plain search text on nodes and messages saved before the search
+// index stopped indexing raw HTML (nodes, then messages)
+export const backfillSearchText = internalMutation({
+  args: {
+    table: v.optional(v.union(v.literal("canvasNodes"), v.literal("messages"))),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const table = args.table ?? "canvasNodes";
+    const page = await ctx.db
+      .query(table)
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const row of page.page) {
+      if (row.searchText === undefined) {
+        await ctx.db.patch(row._id, searchFields(row.content));
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillSearchText, {
+        table,
+        cursor: page.continueCursor,
+      });
+    } else if (table === "canvasNodes") {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillSearchText, {
+        table: "messages",
+      });
+    }
+  },
+});
+
+// Move similarity percentages ("87%") out of edge labels into kind/score
+export const backfillEdgeKinds = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<void> => {
+    const page = await ctx.db
+      .query("canvasEdges")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const edge of page.page) {
+      const score = parseSimilarityLabel(edge.label);
+      if (edge.kind === undefined && score !== null) {
+        await ctx.db.patch(edge._id, {
+          kind: "similar",
+          score,
+          label: undefined,
+        });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillEdgeKinds, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+// Set userId on edges created before edges were user-scoped, taking it from the
+// source (or target) node. Edges whose nodes are both gone are deleted.
+export const backfillEdgeUserIds = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<void> => {
+    const page = await ctx.db
+      .query("canvasEdges")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const edge of page.page) {
+      if (edge.userId !== undefined) continue;
+
+      const node =
+        (await ctx.db.get(edge.source)) ?? (await ctx.db.get(edge.target));
+      if (node) {
+        await ctx.db.patch(edge._id, { userId: node.userId });
+      } else {
+        await ctx.db.delete(edge._id);
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillEdgeUserIds, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+// Set userId on messages created before messages were searchable by owner,
+// taking it from the conversation. Messages whose conversation is gone are left.
+export const backfillMessageUserIds = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<void> => {
+    const page = await ctx.db
+      .query("messages")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const message of page.page) {
+      if (message.userId !== undefined) continue;
+
+      const conversation = await ctx.db.get(message.conversationId);
+      if (conversation) {
+        await ctx.db.patch(message._id, { userId: conversation.userId });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillMessageUserIds, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+// Merge parallel duplicate edges (same source, target and kind) left over from
+// before createEdge was idempotent. The oldest edge is kept with the highest
+// score and the first non-empty label.
+export const mergeDuplicateEdges = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<void> => {
+    const page = await ctx.db
+      .query("canvasEdges")
+      .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+    for (const edge of page.page) {
+      // Skip edges already deleted as a duplicate earlier in this batch
+      if (!(await ctx.db.get(edge._id))) continue;
+
+      const [keep, ...duplicates] = await findMatchingEdges(
+        ctx,
+        edge.source,
+        edge.target,
+        edge.kind
+      );
+      if (duplicates.length === 0) continue;
+
+      const all = [keep, ...duplicates];
+      const scores = all.flatMap((e) => (e.score !== undefined ? [e.score] : []));
+      await ctx.db.patch(keep._id, {
+        score: scores.length > 0 ? Math.max(...scores) : undefined,
+        label: all.find((e) => e.label)?.label,
+      });
+
+      for (const duplicate of duplicates) {
+        await ctx.db.delete(duplicate._id);
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.mergeDuplicateEdges, {
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
@@ -0,0 +1,172 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import {
+  getNodeProperties,
+  matchesPropertyFilter,
+  normalizePropertyKey,
+  propertyOperator,
+  propertyType,
+  propertyValue,
+  PropertyType,
+  setNodeProperty,
+} from "./lib/properties";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+// A note's properties in the order they were added
+export const getProperties = query({
+  args: { nodeId: v.id("canvasNodes") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.userId !== identity.subject) return [];
+
+    const properties = await getNodeProperties(ctx, args.nodeId);
+    return properties.map(({ _id, key, type, value }) => ({ _id, key, type, value }));
+  },
+});
+
+// Every property key the user has used, with its most common type
+export const listPropertyKeys = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const properties = await ctx.db
+      .query("noteProperties")
+      .withIndex("by_user_key_value", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    const keys = new Map<
+      string,
+      { key: string; count: number; types: Map<PropertyType, number> }
+    >();
+    for (const property of properties) {
+      const entry = keys.get(property.normalizedKey) ?? {
+        key: property.key,
+        count: 0,
+        types: new Map(),
+      };
+      entry.count++;
+      entry.types.set(property.type, (entry.types.get(property.type) ?? 0) + 1);
+      keys.set(property.normalizedKey, entry);
+    }
+
+    return Array.from(keys.values())
+      .map(({ key, count, types }) => ({
+        key,
+        count,
+        type: Array.from(types.entries()).sort((a, b) => b[1] - a[1])[0][0],
+      }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  },
+});
+
+// Notes that have a property, optionally filtered by its value and sorted by it
+export const queryNotesByProperty = query({
+  args: {
+    key: v.string(),
+    filter: v.optional(
+      v.object({ op: propertyOperator, value: propertyValue })
+    ),
+    order: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const normalizedKey = normalizePropertyKey(args.key);
+    const filter = args.filter;
+
+    // Equality and range filters use the index; the rest are checked below
+    const properties = await ctx.db
+      .query("noteProperties")
+      .withIndex("by_user_key_value", (q) => {
+        const byKey = q
+          .eq("userId", identity.subject)
+          .eq("normalizedKey", normalizedKey);
+        switch (filter?.op) {
+          case "eq":
+            return byKey.eq("value", filter.value);
+          case "lt":
+            return byKey.lt("value", filter.value);
+          case "lte":
+            return byKey.lte("value", filter.value);
+          case "gt":
+            return byKey.gt("value", filter.value);
+          case "gte":
+            return byKey.gte("value", filter.value);
+          default:
+            return byKey;
+        }
+      })
+      .order(args.order ?? "asc")
+      .collect();
+
+    const matching = filter
+      ? properties.filter((property) =>
+          matchesPropertyFilter(property.value, filter.op, filter.value)
+        )
+      : properties;
+
+    const notes = await Promise.all(
+      matching.map(async (property) => {
+        const node = await ctx.db.get(property.nodeId);
+        if (!node || node.deletedAt || node.type !== "note") return null;
+        return {
+          ...node,
+          property: { key: property.key, type: property.type, value: property.value },
+        };
+      })
+    );
+
+    return notes.filter((note) => note !== null);
+  },
+});
+
+// Create or update a property on a note
+export const setProperty = mutation({
+  args: {
+    nodeId: v.id("canvasNodes"),
+    key: v.string(),
+    type: propertyType,
+    value: propertyValue,
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    return await setNodeProperty(ctx, identity.subject, args.nodeId, {
+      key: args.key,
+      type: args.type,
+      value: args.value,
+    });
+  },
+});
+
+export const removeProperty = mutation({
+  args: { nodeId: v.id("canvasNodes"), key: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    const normalizedKey = normalizePropertyKey(args.key);
+    const property = await ctx.db
+      .query("noteProperties")
+      .withIndex("by_node_key", (q) =>
+        q.eq("nodeId", args.nodeId).eq("normalizedKey", normalizedKey)
+      )
+      .first();
+    if (property) {
+      await ctx.db.delete(property._id);
+    }
+  },
+});
@@ -0,0 +1,165 @@
+import { v } from "convex/values";
+import { action, query, QueryCtx } from "./_generated/server";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { reciprocalRankFusion, termCoverage, toPlainText } from "./lib/search";
+import {
+  DEFAULT_RETRIEVAL_OPTIONS,
+  estimateTokens,
+  recencyMultiplier,
+  retrievalOptions,
+  truncateToTokens,
+} from "./lib/retrieval";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+// Smallest slice of a note worth adding once the budget is nearly spent
+const MIN_ITEM_TOKENS = 50;
+
+export interface ContextItem {
+  _id: Id<"canvasNodes">;
+  title: string;
+  section?: string; // Heading of the quoted passage
+  content: string; // Plain text (whole note or best passage), truncated to fit the budget
+  score?: number; // Fused relevance; unset for mentioned notes
+  similarity?: number; // Vector similarity (0-1) when matched semantically
+  reasons: ("mentioned" | "keyword" | "semantic" | "recent")[];
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface RetrievedContext {
+  items: ContextItem[];
+  tokens: number;
+}
+
+// The user's live nodes among the given ids, for scoring and context
+export const getContextNodes = query({
+  args: { ids: v.array(v.id("canvasNodes")) },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const nodes = await Promise.all(args.ids.map((id) => ctx.db.get(id)));
+    return nodes
+      .filter((node) => node !== null)
+      .filter((node) => node.userId === identity.subject && !node.deletedAt)
+      .map(({ _id, title, content, updatedAt }) => ({ _id, title, content, updatedAt }));
+  },
+});
+
+/**
+ * Context for a chat message: the notes the user @mentioned, then notes found
+ * by keyword and vector search fused with reciprocal rank fusion and boosted
+ * when recently edited. Each note appears once and the whole set fits within
+ * the token budget.
+ */
+export const retrieveContext = action({
+  args: {
+    query: v.string(),
+    mentionedNoteIds: v.optional(v.array(v.id("canvasNodes"))),
+    options: v.optional(retrievalOptions),
+  },
+  handler: async (ctx, args): Promise<RetrievedContext> => {
+    const options = {
+      ...DEFAULT_RETRIEVAL_OPTIONS,
+      ...Object.fromEntries(
+        Object.entries(args.options ?? {}).filter(([, value]) => value !== undefined)
+      ),
+    };
+    const mentioned = Array.from(new Set(args.mentionedNoteIds ?? []));
+    const candidateLimit = options.maxNotes * 2;
+
+    const keyword = await ctx.runQuery(api.search.keywordSearch, {
+      query: args.query,
+      limit: candidateLimit,
+    });
+    // The index matches any term, so common words alone would pull in
+    // unrelated notes; keep hits that contain enough of the query
+    const keywordIds = keyword.nodes
+      .filter((node) => termCoverage(node.content, args.query) >= options.minKeywordMatch)
+      .map((node) => node._id);
+
+    // Keyword hits still give context if embedding the query fails
+    const similarity = new Map<string, number>();
+    const passages = new Map<string, { text: string; heading?: string }>();
+    try {
+      const related = await ctx.runAction(api.embeddings.findRelated, {
+        query: args.query,
+        limit: candidateLimit,
+      });
+      for (const node of related.nodes) {
+        if (node && node.score >= options.minSimilarity) {
+          similarity.set(node._id, node.score);
+          if (node.passage) {
+            passages.set(node._id, { text: node.passage, heading: node.heading });
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Vector retrieval failed:", error);
+    }
+    const semanticIds = Array.from(similarity.keys()) as Id<"canvasNodes">[];
+
+    const fused = reciprocalRankFusion([keywordIds, semanticIds], (id) => id);
+    const nodes = await ctx.runQuery(api.retrieval.getContextNodes, {
+      ids: Array.from(new Set([...mentioned, ...fused.map(({ item }) => item)])),
+    });
+    const byId = new Map(nodes.map((node) => [node._id as string, node]));
+
+    const now = Date.now();
+    const retrieved = fused
+      .filter(({ item }) => byId.has(item) && !mentioned.includes(item))
+      .map(({ item, score }) => {
+        const boost = recencyMultiplier(byId.get(item)!.updatedAt, now, options);
+        return { id: item, score: score * boost, recent: boost > 1 };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.maxNotes);
+
+    // Mentioned notes come first and aren't capped per note
+    const items: ContextItem[] = [];
+    let remaining = options.tokenBudget;
+    const candidates = [
+      ...mentioned.map((id) => ({ id, score: undefined, recent: false })),
+      ...retrieved,
+    ];
+    for (const candidate of candidates) {
+      const node = byId.get(candidate.id);
+      if (!node) continue;
+      if (remaining < MIN_ITEM_TOKENS) break;
+
+      // Retrieved notes quote the passage that matched, if found by meaning
+      const isMentioned = candidate.score === undefined;
+      const passage = isMentioned ? undefined : passages.get(node._id);
+      const text = passage?.text ?? toPlainText(node.content);
+      const cap = isMentioned ? remaining : Math.min(remaining, options.maxNoteTokens);
+      const content = truncateToTokens(text, cap);
+      const tokens = estimateTokens(content);
+      remaining -= tokens;
+
+      items.push({
+        _id: node._id,
+        title: node.title || "Untitled",
+        section: passage?.heading,
+        content,
+        score: candidate.score,
+        similarity: similarity.get(node._id),
+        reasons: isMentioned
+          ? ["mentioned"]
+          : [
+              ...(keywordIds.includes(node._id) ? ["keyword" as const] : []),
+              ...(similarity.has(node._id) ? ["semantic" as const] : []),
+              ...(candidate.recent ? ["recent" as const] : []),
+            ],
+        tokens,
+        truncated: content !== text,
+      });
+    }
+
+    return { items, tokens: options.tokenBudget - remaining };
+  },
+});
@@ -0,0 +1,63 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { extractWikiLinksFromContent, titleFields } from "./lib/notes";
+import { snapshotRevision } from "./lib/revisions";
+import { searchFields } from "./lib/search";
+import { syncInlineTags } from "./lib/tags";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+// List a node's revisions, newest first
+export const listRevisions = query({
+  args: { nodeId: v.id("canvasNodes") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.userId !== identity.subject) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("nodeRevisions")
+      .withIndex("by_node", (q) => q.eq("nodeId", args.nodeId))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Restore a node to a previous revision (the current content is snapshotted first)
+export const restoreRevision = mutation({
+  args: { revisionId: v.id("nodeRevisions") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision || revision.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    const node = await ctx.db.get(revision.nodeId);
+    if (!node || node.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    await snapshotRevision(ctx, node, "restore");
+
+    await ctx.db.patch(node._id, {
+      content: revision.content,
+      ...titleFields(revision.content),
+      ...searchFields(revision.content),
+      outgoingLinks: extractWikiLinksFromContent(revision.content),
+      updatedAt: Date.now(),
+    });
+    await syncInlineTags(ctx, identity.subject, node._id, revision.content);
+
+    return revision.content;
+  },
+});
@@ -1,5 +1,15 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { edgeKind } from "./lib/edges";
+import { nodeSourceType, nodeType } from "./lib/nodes";
+import {
+  EMBEDDING_SLOT_DIMENSIONS,
+  embeddingModelSpec,
+  embeddingSlot,
+  embeddingTrackingFields,
+} from "./lib/embeddings";
+import { propertyType, propertyValue } from "./lib/properties";
+import { tableViewFields } from "./lib/tableViews";
 
 export default defineSchema({
   // Conversations - each chat session
@@ -12,18 +22,34 @@ export default defineSchema({
 
   // Messages within conversations
   messages: defineTable({
+    // Owner - optional until backfilled by migrations:backfillMessageUserIds
+    userId: v.optional(v.string()),
     conversationId: v.id("conversations"),
     role: v.union(v.literal("user"), v.literal("assistant")),
     content: v.string(),
+    // Plain text for the search index - optional until backfilled by
+    // migrations:backfillSearchText
+    searchText: v.optional(v.string()),
     createdAt: v.number(),
-    // Embedding for semantic search
+    // Embeddings for semantic search, one field per slot (see lib/embeddings)
     embedding: v.optional(v.array(v.float64())),
+    embeddingB: v.optional(v.array(v.float64())),
+    ...embeddingTrackingFields,
   })
     .index("by_conversation", ["conversationId"])
     .vectorIndex("by_embedding", {
       vectorField: "embedding",
-      dimensions: 1536, // OpenAI text-embedding-3-small
-      filterFields: ["conversationId"],
+      dimensions: EMBEDDING_SLOT_DIMENSIONS.a,
+      filterFields: ["conversationId", "userId"],
+    })
+    .vectorIndex("by_embedding_b", {
+      vectorField: "embeddingB",
+      dimensions: EMBEDDING_SLOT_DIMENSIONS.b,
+      filterFields: ["conversationId", "userId"],
+    })
+    .searchIndex("search_content", {
+      searchField: "searchText",
+      filterFields: ["userId"],
     }),
 
   // Voice notes - audio recordings with transcriptions
@@ -50,13 +76,15 @@ export default defineSchema({
   // Canvas nodes - blocks on the infinite canvas
   canvasNodes: defineTable({
     userId: v.string(),
-    type: v.union(
-      v.literal("text"),
-      v.literal("chat_reference"),
-      v.literal("note")
-    ),
+    type: nodeType,
     content: v.string(),
-    // Position on canvas
+    // Title derived from the first line/heading of content, kept in sync on save
+    title: v.optional(v.string()),
+    normalizedTitle: v.optional(v.string()), // Lowercased for lookups
+    // Plain text for the search index - optional until backfilled by
+    // migrations:backfillSearchText
+    searchText: v.optional(v.string()),
+    // Initial position; per-board positions live in boardNodes
     x: v.number(),
     y: v.number(),
     width: v.number(),
@@ -65,43 +93,200 @@ export default defineSchema({
     messageId: v.optional(v.id("messages")),
     conversationId: v.optional(v.id("conversations")),
     // Source tracking for Zettelkasten
-    sourceType: v.optional(
-      v.union(
-        v.literal("manual"),
-        v.literal("voice"),
-        v.literal("chat"),
-        v.literal("ai_extracted"),
-        v.literal("web"),
-        v.literal("youtube"),
-        v.literal("readwise")
-      )
-    ),
+    sourceType: v.optional(nodeSourceType),
     sourceId: v.optional(v.id("voiceNotes")), // Reference to source voice note
     sourceUrl: v.optional(v.string()), // URL for imported content
     parentNodeId: v.optional(v.id("canvasNodes")), // For atomic splits
     // Wiki links extracted from content
     outgoingLinks: v.optional(v.array(v.string())), // [[link]] targets
-    // Embedding for semantic search
+    // Whole-node embedding from before chunking (slot a); new embeddings are
+    // stored in nodeChunks
     embedding: v.optional(v.array(v.float64())),
+    ...embeddingTrackingFields,
+    // Set when the node is moved to the trash (purged after 30 days)
+    deletedAt: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_user", ["userId"])
+    .index("by_user_deletedAt", ["userId", "deletedAt"])
+    .index("by_deletedAt", ["deletedAt"])
+    .index("by_user_title", ["userId", "normalizedTitle"])
     .index("by_sourceId", ["sourceId"])
     .index("by_parentNodeId", ["parentNodeId"])
     .vectorIndex("by_embedding", {
       vectorField: "embedding",
-      dimensions: 1536,
+      dimensions: EMBEDDING_SLOT_DIMENSIONS.a,
       filterFields: ["type", "userId"],
+    })
+    .searchIndex("search_content", {
+      searchField: "searchText",
+      filterFields: ["userId", "deletedAt"],
     }),
 
   // Edges connecting canvas nodes
   canvasEdges: defineTable({
+    // Owner - optional until backfilled by migrations:backfillEdgeUserIds
+    userId: v.optional(v.string()),
     source: v.id("canvasNodes"),
     target: v.id("canvasNodes"),
-    label: v.optional(v.string()),
+    label: v.optional(v.string()), // Free-form label
+    kind: v.optional(edgeKind), // Semantic relationship type
+    score: v.optional(v.number()), // Similarity score (0-1) for "similar" edges
     createdAt: v.number(),
   })
+    .index("by_user", ["userId"])
     .index("by_source", ["source"])
-    .index("by_target", ["target"]),
+    .index("by_target", ["target"])
+    .index("by_source_target", ["source", "target"]),
+
+  // Boards - named canvases. Every user has one default board.
+  boards: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    isDefault: v.optional(v.boolean()), // New nodes without a board land here
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId"]),
+
+  // Placement of a node on a board - the same node can sit on several boards
+  boardNodes: defineTable({
+    userId: v.string(),
+    boardId: v.id("boards"),
+    nodeId: v.id("canvasNodes"),
+    x: v.number(),
+    y: v.number(),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_board", ["boardId"])
+    .index("by_board_node", ["boardId", "nodeId"])
+    .index("by_node", ["nodeId"]),
+
+  // Embedded passages of a node's content, split by heading and paragraph
+  nodeChunks: defineTable({
+    userId: v.string(),
+    nodeId: v.id("canvasNodes"),
+    index: v.number(), // Position within the node
+    heading: v.optional(v.string()),
+    text: v.string(),
+    // One field per slot (see lib/embeddings)
+    embedding: v.optional(v.array(v.float64())),
+    embeddingB: v.optional(v.array(v.float64())),
+    createdAt: v.number(),
+  })
+    .index("by_node", ["nodeId", "index"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_SLOT_DIMENSIONS.a,
+      filterFields: ["userId"],
+    })
+    .vectorIndex("by_embedding_b", {
+      vectorField: "embeddingB",
+      dimensions: EMBEDDING_SLOT_DIMENSIONS.b,
+      filterFields: ["userId"],
+    }),
+
+  // The embedding model in use and any migration to a new one (a single row,
+  // absent until the first migration; see embeddingMigrations)
+  embeddingState: defineTable({
+    activeSlot: embeddingSlot,
+    activeModel: embeddingModelSpec,
+    migration: v.optional(
+      v.object({
+        slot: embeddingSlot, // Being filled, then becomes active
+        model: embeddingModelSpec,
+        fromModel: embeddingModelSpec, // Active before the switch
+        phase: v.union(v.literal("embedding"), v.literal("dropping")),
+        startedAt: v.number(),
+        switchedAt: v.optional(v.number()),
+      })
+    ),
+    updatedAt: v.number(),
+  }),
+
+  // The embedding backfill run in progress (a single row), so an hourly run
+  // doesn't start while the previous one is still paging
+  embeddingBackfill: defineTable({
+    running: v.boolean(),
+    startedAt: v.number(),
+    heartbeatAt: v.number(), // When the last page finished
+  }),
+
+  // Snapshots of node content taken before updates (throttled) and restores
+  nodeRevisions: defineTable({
+    userId: v.string(),
+    nodeId: v.id("canvasNodes"),
+    content: v.string(),
+    title: v.optional(v.string()),
+    reason: v.union(
+      v.literal("edit"),
+      v.literal("rename"),
+      v.literal("restore"),
+      v.literal("merge")
+    ),
+    createdAt: v.number(),
+  }).index("by_node", ["nodeId", "createdAt"]),
+
+  // Alternate names a note can be linked by (e.g. the title of a merged note)
+  noteAliases: defineTable({
+    userId: v.string(),
+    nodeId: v.id("canvasNodes"),
+    alias: v.string(),
+    normalizedAlias: v.string(), // Lowercased for lookups
+    createdAt: v.number(),
+  })
+    .index("by_node", ["nodeId"])
+    .index("by_user_alias", ["userId", "normalizedAlias"]),
+
+  // Typed key/value properties on notes (frontmatter)
+  noteProperties: defineTable({
+    userId: v.string(),
+    nodeId: v.id("canvasNodes"),
+    key: v.string(), // As entered, e.g. "Due date"
+    normalizedKey: v.string(), // Lowercased for lookups
+    type: propertyType,
+    value: propertyValue,
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_node", ["nodeId"])
+    .index("by_node_key", ["nodeId", "normalizedKey"])
+    .index("by_user_key_value", ["userId", "normalizedKey", "value"]),
+
+  // Saved table views over notes
+  tableViews: defineTable({
+    userId: v.string(),
+    name: v.string(),
+    ...tableViewFields,
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId"]),
+
+  // Tags - user-scoped labels for notes
+  tags: defineTable({
+    userId: v.string(),
+    name: v.string(), // Normalized: lowercase, no leading "#"
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_name", ["userId", "name"]),
+
+  // Join table between canvas nodes and tags
+  nodeTags: defineTable({
+    userId: v.string(),
+    nodeId: v.id("canvasNodes"),
+    tagId: v.id("tags"),
+    // Where the tag came from - inline tags are re-synced from content on save
+    source: v.union(
+      v.literal("extracted"),
+      v.literal("inline"),
+      v.literal("imported")
+    ),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_node", ["nodeId"])
+    .index("by_tag", ["tagId"]),
 });
@@ -0,0 +1,180 @@
+import { v } from "convex/values";
+import { action, query, QueryCtx } from "./_generated/server";
+import { api } from "./_generated/api";
+import {
+  buildSnippet,
+  hasRelatedFilters,
+  includesMessages,
+  matchesMessageFilters,
+  matchesNodeFilters,
+  MAX_SEARCH_TERMS,
+  queryTerms,
+  reciprocalRankFusion,
+  relatedFilters,
+  searchMode,
+  Snippet,
+} from "./lib/search";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+export interface SearchHit {
+  _id: string;
+  type: "message" | "node";
+  title?: string;
+  conversationId?: string; // For messages, to enable navigation
+  snippet: Snippet;
+  score?: number; // Similarity (0-1) when matched semantically
+  matchedBy: ("keyword" | "semantic")[];
+}
+
+// Full-text search over the user's notes and chat messages, in relevance order.
+// Filters are applied to a larger candidate set, like findRelated does.
+export const keywordSearch = query({
+  args: {
+    query: v.string(),
+    limit: v.optional(v.number()),
+    filters: v.optional(relatedFilters),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    // Long queries (e.g. whole chat messages) keep their first terms
+    const text = queryTerms(args.query).slice(0, MAX_SEARCH_TERMS).join(" ");
+    if (!text) return { messages: [], nodes: [] };
+    const limit = args.limit ?? 10;
+    const filters = args.filters;
+    const candidates = hasRelatedFilters(filters) ? limit * 4 : limit;
+
+    const nodes = await ctx.db
+      .query("canvasNodes")
+      .withSearchIndex("search_content", (q) =>
+        q
+          .search("searchText", text)
+          .eq("userId", identity.subject)
+          .eq("deletedAt", undefined)
+      )
+      .take(candidates);
+
+    const messages = includesMessages(filters)
+      ? await ctx.db
+          .query("messages")
+          .withSearchIndex("search_content", (q) =>
+            q.search("searchText", text).eq("userId", identity.subject)
+          )
+          .take(candidates)
+      : [];
+
+    return {
+      messages: messages
+        .filter((message) => matchesMessageFilters(message, filters))
+        .slice(0, limit)
+        .map((message) => ({
+          _id: message._id,
+          conversationId: message.conversationId,
+          content: message.content,
+        })),
+      nodes: nodes
+        .filter((node) => matchesNodeFilters(node, filters))
+        .slice(0, limit)
+        .map((node) => ({
+          _id: node._id,
+          title: node.title,
+          content: node.content,
+        })),
+    };
+  },
+});
+
+// Search notes and messages by keyword, by meaning, or both. Hybrid mode fuses
+// the two rankings, so exact phrases and related ideas both rank well.
+export const search = action({
+  args: {
+    query: v.string(),
+    mode: searchMode,
+    limit: v.optional(v.number()),
+    filters: v.optional(relatedFilters),
+  },
+  handler: async (ctx, args): Promise<SearchHit[]> => {
+    const limit = args.limit ?? 10;
+
+    const keyword: SearchHit[] = [];
+    if (args.mode !== "semantic") {
+      const results = await ctx.runQuery(api.search.keywordSearch, {
+        query: args.query,
+        limit,
+        filters: args.filters,
+      });
+      // Interleave so neither table crowds out the other
+      for (let i = 0; i < limit; i++) {
+        const node = results.nodes[i];
+        const message = results.messages[i];
+        if (node) {
+          keyword.push({
+            _id: node._id,
+            type: "node",
+            title: node.title,
+            snippet: buildSnippet(node.content, args.query),
+            matchedBy: ["keyword"],
+          });
+        }
+        if (message) {
+          keyword.push({
+            _id: message._id,
+            type: "message",
+            conversationId: message.conversationId,
+            snippet: buildSnippet(message.content, args.query),
+            matchedBy: ["keyword"],
+          });
+        }
+      }
+    }
+
+    const semantic: SearchHit[] = [];
+    if (args.mode !== "keyword") {
+      const results = await ctx.runAction(api.embeddings.findRelated, {
+        query: args.query,
+        limit,
+        filters: args.filters,
+      });
+      const related = [...results.messages, ...results.nodes]
+        .filter((result) => result !== null)
+        .sort((a, b) => b.score - a.score);
+      for (const result of related) {
+        semantic.push({
+          _id: result._id,
+          type: result.type,
+          title: result.type === "node" ? result.title : undefined,
+          conversationId:
+            result.type === "message" ? result.conversationId : undefined,
+          // Notes show the passage that matched rather than their opening
+          snippet: buildSnippet(
+            result.type === "node" ? (result.passage ?? result.content) : result.content,
+            args.query
+          ),
+          score: result.score,
+          matchedBy: ["semantic"],
+        });
+      }
+    }
+
+    if (args.mode === "keyword") return keyword;
+    if (args.mode === "semantic") return semantic;
+
+    const semanticById = new Map(semantic.map((hit) => [hit._id, hit]));
+    const keywordIds = new Set(keyword.map((hit) => hit._id));
+    return reciprocalRankFusion([keyword, semantic], (hit) => hit._id)
+      .slice(0, limit)
+      .map(({ item }) => ({
+        ...item,
+        score: semanticById.get(item._id)?.score,
+        matchedBy: [
+          ...(keywordIds.has(item._id) ? ["keyword" as const] : []),
+          ...(semanticById.has(item._id) ? ["semantic" as const] : []),
+        ],
+      }));
+  },
+});
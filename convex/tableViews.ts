@@ -0,0 +1,167 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { tableViewFields } from "./lib/tableViews";
+import { extractWikiLinkTargets, normalizeTitle } from "./lib/notes";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+// One row per note with the counts and properties the table view shows
+export const listNoteRows = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const nodes = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).eq("deletedAt", undefined)
+      )
+      .collect();
+    const notes = nodes.filter((node) => node.type === "note");
+
+    // Link targets resolve by title first, then by alias
+    const byTitle = new Map<string, Id<"canvasNodes">>();
+    for (const note of notes) {
+      if (note.normalizedTitle && !byTitle.has(note.normalizedTitle)) {
+        byTitle.set(note.normalizedTitle, note._id);
+      }
+    }
+    const noteIds = new Set(notes.map((note) => note._id));
+    const aliases = await ctx.db
+      .query("noteAliases")
+      .withIndex("by_user_alias", (q) => q.eq("userId", identity.subject))
+      .collect();
+    for (const alias of aliases) {
+      if (noteIds.has(alias.nodeId) && !byTitle.has(alias.normalizedAlias)) {
+        byTitle.set(alias.normalizedAlias, alias.nodeId);
+      }
+    }
+
+    // Outgoing links per note, and the distinct notes linking to each note
+    const linkCounts = new Map<Id<"canvasNodes">, number>();
+    const backlinkSources = new Map<Id<"canvasNodes">, Set<Id<"canvasNodes">>>();
+    for (const note of notes) {
+      const targets = new Set(
+        (note.outgoingLinks ?? extractWikiLinkTargets(note.content)).map(normalizeTitle)
+      );
+      linkCounts.set(note._id, targets.size);
+
+      for (const target of targets) {
+        const targetId = byTitle.get(target);
+        if (!targetId || targetId === note._id) continue;
+        const sources = backlinkSources.get(targetId) ?? new Set();
+        sources.add(note._id);
+        backlinkSources.set(targetId, sources);
+      }
+    }
+
+    const nodeTags = await ctx.db
+      .query("nodeTags")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+    const tagCounts = new Map<Id<"canvasNodes">, number>();
+    for (const nodeTag of nodeTags) {
+      tagCounts.set(nodeTag.nodeId, (tagCounts.get(nodeTag.nodeId) ?? 0) + 1);
+    }
+
+    const properties = await ctx.db
+      .query("noteProperties")
+      .withIndex("by_user_key_value", (q) => q.eq("userId", identity.subject))
+      .collect();
+    const propertiesByNode = new Map<Id<"canvasNodes">, typeof properties>();
+    for (const property of properties) {
+      const list = propertiesByNode.get(property.nodeId) ?? [];
+      list.push(property);
+      propertiesByNode.set(property.nodeId, list);
+    }
+
+    return notes.map((note) => ({
+      _id: note._id,
+      title: note.title ?? "Untitled",
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      sourceType: note.sourceType,
+      tagCount: tagCounts.get(note._id) ?? 0,
+      backlinkCount: backlinkSources.get(note._id)?.size ?? 0,
+      linkCount: linkCounts.get(note._id) ?? 0,
+      properties: (propertiesByNode.get(note._id) ?? []).map(
+        ({ key, normalizedKey, type, value }) => ({ key, normalizedKey, type, value })
+      ),
+    }));
+  },
+});
+
+export const listViews = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const views = await ctx.db
+      .query("tableViews")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+    return views.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const createView = mutation({
+  args: { name: v.string(), ...tableViewFields },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const name = args.name.trim();
+    if (!name) throw new Error("View name is required");
+
+    const now = Date.now();
+    return await ctx.db.insert("tableViews", {
+      ...args,
+      userId: identity.subject,
+      name,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Update a view's name and/or definition
+export const updateView = mutation({
+  args: {
+    id: v.id("tableViews"),
+    name: v.optional(v.string()),
+    columns: v.optional(tableViewFields.columns),
+    sort: tableViewFields.sort,
+    filters: v.optional(tableViewFields.filters),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const view = await ctx.db.get(args.id);
+    if (!view || view.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    const name = args.name?.trim();
+    await ctx.db.patch(args.id, {
+      ...(name ? { name } : {}),
+      ...(args.columns ? { columns: args.columns } : {}),
+      ...(args.filters ? { filters: args.filters } : {}),
+      // Sort is replaced along with the columns, so a view can drop its sort
+      ...(args.columns ? { sort: args.sort } : {}),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const deleteView = mutation({
+  args: { id: v.id("tableViews") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const view = await ctx.db.get(args.id);
+    if (!view || view.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+    await ctx.db.delete(args.id);
+  },
+});
@@ -0,0 +1,99 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { addNodeTags } from "./lib/tags";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+// List the user's tags with how many nodes use each (for the Notes sidebar)
+export const listTags = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const tags = await ctx.db
+      .query("tags")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    const nodeTags = await ctx.db
+      .query("nodeTags")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    // Nodes in the trash don't count towards a tag
+    const trashed = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).gt("deletedAt", 0)
+      )
+      .collect();
+    const trashedIds = new Set<string>(trashed.map((node) => node._id));
+
+    const counts = new Map<string, number>();
+    for (const nodeTag of nodeTags) {
+      if (trashedIds.has(nodeTag.nodeId)) continue;
+      counts.set(nodeTag.tagId, (counts.get(nodeTag.tagId) ?? 0) + 1);
+    }
+
+    return tags
+      .map((tag) => ({ ...tag, count: counts.get(tag._id) ?? 0 }))
+      .filter((tag) => tag.count > 0)
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  },
+});
+
+// List notes with a given tag, sorted by updatedAt
+export const listNotesByTag = query({
+  args: { tagId: v.id("tags") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const tag = await ctx.db.get(args.tagId);
+    if (!tag || tag.userId !== identity.subject) {
+      return [];
+    }
+
+    const nodeTags = await ctx.db
+      .query("nodeTags")
+      .withIndex("by_tag", (q) => q.eq("tagId", args.tagId))
+      .collect();
+
+    const nodes = await Promise.all(
+      nodeTags.map((nodeTag) => ctx.db.get(nodeTag.nodeId))
+    );
+
+    return nodes
+      .filter((node) => node !== null)
+      .filter(
+        (node) =>
+          node.userId === identity.subject &&
+          node.type === "note" &&
+          !node.deletedAt
+      )
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
+
+// Attach tags from concept extraction or imports to a node
+export const addTagsToNode = mutation({
+  args: {
+    nodeId: v.id("canvasNodes"),
+    tags: v.array(v.string()),
+    source: v.union(v.literal("extracted"), v.literal("imported")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const node = await ctx.db.get(args.nodeId);
+    if (!node || node.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    await addNodeTags(ctx, identity.subject, args.nodeId, args.tags, args.source);
+  },
+});
@@ -0,0 +1,109 @@
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  internalMutation,
+  QueryCtx,
+  MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { purgeNode, TRASH_RETENTION_MS } from "./lib/trash";
+
+// Helper to get authenticated user
+async function getAuthenticatedUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) throw new Error("Unauthorized");
+  return identity;
+}
+
+// List nodes in the trash, most recently deleted first
+export const listTrash = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const nodes = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).gt("deletedAt", 0)
+      )
+      .order("desc")
+      .collect();
+
+    return nodes.map((node) => ({
+      ...node,
+      purgeAt: (node.deletedAt ?? 0) + TRASH_RETENTION_MS,
+    }));
+  },
+});
+
+// Restore a node from the trash. Its edges were kept, so they come back with it.
+export const restoreNode = mutation({
+  args: { id: v.id("canvasNodes") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const node = await ctx.db.get(args.id);
+    if (!node || node.userId !== identity.subject) {
+      throw new Error("Not found");
+    }
+
+    await ctx.db.patch(args.id, { deletedAt: undefined });
+  },
+});
+
+// Permanently delete a node that is in the trash
+export const deleteForever = mutation({
+  args: { id: v.id("canvasNodes") },
+  handler: async (ctx, args) => {
+    const identity = await getAuthenticatedUser(ctx);
+    const node = await ctx.db.get(args.id);
+    if (!node || node.userId !== identity.subject || !node.deletedAt) {
+      throw new Error("Not found");
+    }
+
+    await purgeNode(ctx, args.id);
+  },
+});
+
+// Permanently delete everything in the user's trash
+export const emptyTrash = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await getAuthenticatedUser(ctx);
+
+    const nodes = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_user_deletedAt", (q) =>
+        q.eq("userId", identity.subject).gt("deletedAt", 0)
+      )
+      .collect();
+
+    for (const node of nodes) {
+      await purgeNode(ctx, node._id);
+    }
+  },
+});
+
+// Scheduled job (see crons.ts): purge nodes that have been in the trash too long
+export const purgeExpired = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<void> => {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+
+    const expired = await ctx.db
+      .query("canvasNodes")
+      .withIndex("by_deletedAt", (q) =>
+        q.gt("deletedAt", 0).lt("deletedAt", cutoff)
+      )
+      .take(100);
+
+    for (const node of expired) {
+      await purgeNode(ctx, node._id);
+    }
+
+    // Keep going in a fresh transaction if there is more to purge
+    if (expired.length === 100) {
+      await ctx.scheduler.runAfter(0, internal.trash.purgeExpired, {});
+    }
+  },
+});
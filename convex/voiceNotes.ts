@@ -237,6 +237,15 @@ export const process = action({
 
         createdNodeIds.push(nodeId);
 
+        // Keep the tags suggested by concept extraction
+        if (concept.tags?.length) {
+          await ctx.runMutation(api.tags.addTagsToNode, {
+            nodeId,
+            tags: concept.tags,
+            source: "extracted" as const,
+          });
+        }
+
         // Embed the node
         await ctx.runAction(api.embeddings.embedCanvasNode, {
           nodeId,
@@ -258,7 +267,8 @@ export const process = action({
             await ctx.runMutation(api.canvas.createEdge, {
               source: nodeId,
               target: relatedNode._id as Id<"canvasNodes">,
-              label: `${Math.round(relatedNode.score * 100)}%`,
+              kind: "similar",
+              score: relatedNode.score,
             });
           }
         }
@@ -1,20 +0,0 @@
-import { auth } from "@clerk/nextjs/server";
-import { openai } from "@ai-sdk/openai";
-import { embed } from "ai";
-import { NextResponse } from "next/server";
-
-export async function POST(req: Request) {
-  const { userId } = await auth();
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  const { text } = await req.json();
-
-  const { embedding } = await embed({
-    model: openai.embedding("text-embedding-3-small"),
-    value: text,
-  });
-
-  return NextResponse.json({ embedding });
-}
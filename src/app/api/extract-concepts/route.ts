@@ -24,7 +24,7 @@ const ConceptsSchema = z.object({
   ),
   summary: z
     .string()
-    .describe("One sentence summary of the entire transcription"),
+    .describe("One sentence summary of the entire source text"),
 });
 
 export async function POST(req: Request) {
@@ -34,11 +34,14 @@ export async function POST(req: Request) {
   }
 
   try {
-    const { transcription, existingNotes } = await req.json();
+    // Voice notes send a transcription; "Atomize" sends the text of an existing note
+    const { transcription, text, existingNotes } = await req.json();
+    const sourceText = transcription ?? text;
+    const sourceName = transcription ? "voice note transcription" : "note";
 
-    if (!transcription) {
+    if (!sourceText) {
       return Response.json(
-        { error: "No transcription provided" },
+        { error: "No transcription or text provided" },
         { status: 400 }
       );
     }
@@ -55,16 +58,16 @@ export async function POST(req: Request) {
     const { object } = await generateObject({
       model: anthropic("claude-sonnet-4-20250514"),
       schema: ConceptsSchema,
-      prompt: `You are a Zettelkasten assistant helping to build a personal knowledge base. Analyze this voice note transcription and extract atomic concepts.
+      prompt: `You are a Zettelkasten assistant helping to build a personal knowledge base. Analyze this ${sourceName} and extract atomic concepts.
 
-TRANSCRIPTION:
-"${transcription}"
+${sourceName.toUpperCase()}:
+"${sourceText}"
 
 EXISTING NOTES IN THE SYSTEM (for context and linking):
 ${existingNotesList}
 
 INSTRUCTIONS:
-1. Break the transcription into atomic concepts - each should be a SINGLE clear idea that stands alone
+1. Break the ${sourceName} into atomic concepts - each should be a SINGLE clear idea that stands alone
 2. Each concept must be self-contained and understandable without the original context
 3. For suggestedLinks, reference:
    - Related concepts you're creating (by their title)
@@ -73,7 +76,7 @@ INSTRUCTIONS:
 5. Add 1-3 relevant tags for each concept
 6. Return 1-5 concepts depending on content density - don't force more if the content is simple
 
-Focus on capturing the USER'S ideas and insights, not meta-commentary about the recording.`,
+Focus on capturing the USER'S ideas and insights, not meta-commentary about the ${transcription ? "recording" : "note"}.`,
     });
 
     return Response.json(object);
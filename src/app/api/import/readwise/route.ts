@@ -88,6 +88,11 @@ export async function POST(req: Request) {
         })
         .join("\n\n---\n\n");
 
+      // Collect the distinct highlight tags so they can become note tags
+      const tags = Array.from(
+        new Set(book.highlights.flatMap((h) => h.tags.map((t) => t.name)))
+      );
+
       const content = `# ${book.title}\n\n**Author**: ${book.author}\n**Category**: ${book.category}\n**Highlights**: ${book.num_highlights}\n\n## Highlights\n\n${highlightsText}`;
 
       return {
@@ -97,6 +102,7 @@ export async function POST(req: Request) {
         content,
         highlightCount: book.num_highlights,
         sourceUrl: book.source_url || book.highlights_url,
+        tags,
       };
     });
 
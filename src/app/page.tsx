@@ -14,7 +14,10 @@ import { SemanticSearch } from "@/components/search/SemanticSearch";
 import { VoiceRecorder } from "@/components/voice/VoiceRecorder";
 import { NotesView } from "@/components/notes/NotesView";
 import { NotesSidebar } from "@/components/notes/NotesSidebar";
+import { NotesTable } from "@/components/notes/NotesTable";
 import { ImportModal } from "@/components/notes/ImportModal";
+import { TrashModal } from "@/components/notes/TrashModal";
+import { DanglingLinksModal } from "@/components/notes/DanglingLinksModal";
 import { Switch } from "@/components/ui/switch";
 import { useTheme } from "@/lib/theme";
 import { useServiceWorker, usePWAInstall, useIsStandalone } from "@/lib/pwa";
@@ -29,10 +32,11 @@ import {
   Download,
   Plus,
   FileText,
+  Table2,
 } from "lucide-react";
 
-type View = "chat" | "canvas" | "notes";
-const VIEWS: View[] = ["chat", "canvas", "notes"];
+type View = "chat" | "canvas" | "notes" | "table";
+const VIEWS: View[] = ["chat", "canvas", "notes", "table"];
 
 export default function Home() {
   const [view, setView] = useState<View>("chat");
@@ -42,6 +46,8 @@ export default function Home() {
   const [isMobile, setIsMobile] = useState(false);
   const [selectedNoteId, setSelectedNoteId] = useState<Id<"canvasNodes"> | null>(null);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isDanglingLinksOpen, setIsDanglingLinksOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
 
   // PWA hooks
@@ -130,10 +136,11 @@ export default function Home() {
     };
 
     const unsubscribe = tinykeys(window, {
-      // g then c = chat, g then v = canvas, g then n = notes
+      // g then c = chat, g then v = canvas, g then n = notes, g then b = table
       "g c": () => { if (!isTyping()) setView("chat"); },
       "g v": () => { if (!isTyping()) setView("canvas"); },
       "g n": () => { if (!isTyping()) setView("notes"); },
+      "g b": () => { if (!isTyping()) setView("table"); },
       // Navigate between views: g h (prev) and g l (next) - vim style h/l
       "g h": () => {
         if (isTyping()) return;
@@ -183,7 +190,8 @@ export default function Home() {
             await createEdge({
               source: nodeId,
               target: node._id as Id<"canvasNodes">,
-              label: `${Math.round(node.score * 100)}% related`,
+              kind: "similar",
+              score: node.score,
             });
           }
         }
@@ -294,6 +302,16 @@ export default function Home() {
               >
                 Notes
               </button>
+              <button
+                onClick={() => setView("table")}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  view === "table"
+                    ? "bg-muted text-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                Table
+              </button>
             </div>
           )}
         </div>
@@ -394,6 +412,8 @@ export default function Home() {
               }}
               onImportClick={() => setIsImportModalOpen(true)}
               onDailyNoteClick={handleDailyNote}
+              onTrashClick={() => setIsTrashOpen(true)}
+              onDanglingLinksClick={() => setIsDanglingLinksOpen(true)}
             />
           </div>
         )}
@@ -409,6 +429,18 @@ export default function Home() {
             />
           </div>
         )}
+
+        {/* Table Panel */}
+        {view === "table" && (
+          <div className="flex-1 w-full h-full">
+            <NotesTable
+              onOpenNote={(id) => {
+                setSelectedNoteId(id);
+                setView("notes");
+              }}
+            />
+          </div>
+        )}
       </div>
 
       {/* Mobile Bottom Navigation */}
@@ -447,6 +479,17 @@ export default function Home() {
             <FileText className="h-6 w-6" />
             <span className="text-xs font-medium">Notes</span>
           </button>
+          <button
+            onClick={() => setView("table")}
+            className={`flex flex-col items-center gap-1 px-4 py-2 rounded-lg transition-colors ${
+              view === "table"
+                ? "text-primary"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            <Table2 className="h-6 w-6" />
+            <span className="text-xs font-medium">Table</span>
+          </button>
         </nav>
       )}
 
@@ -486,6 +529,24 @@ export default function Home() {
           if (isMobile) setSidebarOpen(false);
         }}
       />
+
+      {/* Trash Modal */}
+      <TrashModal
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+      />
+
+      {/* Unresolved Links Modal */}
+      <DanglingLinksModal
+        isOpen={isDanglingLinksOpen}
+        onClose={() => setIsDanglingLinksOpen(false)}
+        onNavigate={(id) => {
+          setSelectedNoteId(id);
+          setView("notes");
+          setIsDanglingLinksOpen(false);
+          if (isMobile) setSidebarOpen(false);
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
+import { Plus, Pencil, Trash2, Check, X, FilePlus } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface BoardSwitcherProps {
+  boards: Doc<"boards">[];
+  activeBoardId: Id<"boards">;
+  boardNodeIds: Set<string>;
+  onSelect: (id: Id<"boards">) => void;
+}
+
+export function BoardSwitcher({
+  boards,
+  activeBoardId,
+  boardNodeIds,
+  onSelect,
+}: BoardSwitcherProps) {
+  const notes = useQuery(api.canvas.listNotes);
+  const createBoard = useMutation(api.boards.createBoard);
+  const renameBoard = useMutation(api.boards.renameBoard);
+  const deleteBoard = useMutation(api.boards.deleteBoard);
+  const addNodeToBoard = useMutation(api.boards.addNodeToBoard);
+
+  // "create" or "rename" while the name input is shown
+  const [editMode, setEditMode] = useState<"create" | "rename" | null>(null);
+  const [name, setName] = useState("");
+
+  const activeBoard = boards.find((board) => board._id === activeBoardId);
+  const notesOffBoard = notes?.filter((note) => !boardNodeIds.has(note._id)) ?? [];
+
+  const startEdit = (mode: "create" | "rename") => {
+    setEditMode(mode);
+    setName(mode === "rename" ? (activeBoard?.name ?? "") : "");
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return;
+    if (editMode === "create") {
+      const id = await createBoard({ name });
+      onSelect(id);
+    } else if (editMode === "rename") {
+      await renameBoard({ id: activeBoardId, name });
+    }
+    setEditMode(null);
+  };
+
+  const handleDelete = async () => {
+    if (!activeBoard || activeBoard.isDefault) return;
+    if (!confirm(`Delete board "${activeBoard.name}"? Notes on it are kept.`)) {
+      return;
+    }
+    await deleteBoard({ id: activeBoardId });
+    const fallback = boards.find((board) => board.isDefault);
+    if (fallback) onSelect(fallback._id);
+  };
+
+  const handleAddNote = async (nodeId: string) => {
+    await addNodeToBoard({
+      boardId: activeBoardId,
+      nodeId: nodeId as Id<"canvasNodes">,
+      x: Math.random() * 400 + 100,
+      y: Math.random() * 400 + 100,
+    });
+  };
+
+  if (editMode) {
+    return (
+      <div className="flex items-center gap-1 bg-card border border-border rounded-lg p-1 shadow-md">
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSubmit();
+            if (e.key === "Escape") setEditMode(null);
+          }}
+          placeholder="Board name"
+          className="h-7 w-44 px-2 bg-background border border-border rounded text-sm focus:outline-none focus:border-primary"
+        />
+        <button
+          onClick={handleSubmit}
+          className="p-1.5 hover:bg-muted rounded transition-colors"
+          title="Save"
+        >
+          <Check className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setEditMode(null)}
+          className="p-1.5 hover:bg-muted rounded transition-colors"
+          title="Cancel"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 bg-card border border-border rounded-lg p-1 shadow-md">
+      <Select
+        value={activeBoardId}
+        onValueChange={(id) => onSelect(id as Id<"boards">)}
+      >
+        <SelectTrigger className="w-44 h-7 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {boards.map((board) => (
+            <SelectItem key={board._id} value={board._id}>
+              {board.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {notesOffBoard.length > 0 && (
+        <Select value="" onValueChange={handleAddNote}>
+          <SelectTrigger
+            className="w-auto h-7 px-2 gap-1 border-none shadow-none"
+            title="Add an existing note to this board"
+          >
+            <FilePlus className="w-4 h-4" />
+          </SelectTrigger>
+          <SelectContent>
+            {notesOffBoard.map((note) => (
+              <SelectItem key={note._id} value={note._id}>
+                {note.title || "Untitled"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <button
+        onClick={() => startEdit("create")}
+        className="p-1.5 hover:bg-muted rounded transition-colors"
+        title="New board"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => startEdit("rename")}
+        className="p-1.5 hover:bg-muted rounded transition-colors"
+        title="Rename board"
+      >
+        <Pencil className="w-4 h-4" />
+      </button>
+      {!activeBoard?.isDefault && (
+        <button
+          onClick={handleDelete}
+          className="p-1.5 hover:bg-destructive/20 rounded transition-colors"
+          title="Delete board"
+        >
+          <Trash2 className="w-4 h-4 text-destructive" />
+        </button>
+      )}
+    </div>
+  );
+}
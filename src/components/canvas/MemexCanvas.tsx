@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useEffect } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import {
   ReactFlow,
   Background,
@@ -14,7 +14,8 @@ import {
   Edge,
   NodeTypes,
   OnNodesChange,
-  OnEdgesChange,
+  OnDelete,
+  Panel,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import { useQuery, useMutation, useAction } from "convex/react";
@@ -23,7 +24,18 @@ import { Id } from "../../../convex/_generated/dataModel";
 import { TextNode } from "./nodes/TextNode";
 import { ChatReferenceNode } from "./nodes/ChatReferenceNode";
 import { NoteNode } from "./nodes/NoteNode";
+import { BoardSwitcher } from "./BoardSwitcher";
 import { useTheme } from "@/lib/theme";
+import { EDGE_KINDS, EdgeKind, formatEdgeLabel, getEdgeKindStyle } from "@/lib/edges";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const NO_KIND = "none";
 
 const nodeTypes: NodeTypes = {
   text: TextNode,
@@ -33,18 +45,52 @@ const nodeTypes: NodeTypes = {
 
 export function MemexCanvas() {
   const { theme } = useTheme();
-  const canvasNodes = useQuery(api.canvas.listNodes);
-  const canvasEdges = useQuery(api.canvas.listEdges);
+  const boards = useQuery(api.boards.listBoards);
+  const getOrCreateDefaultBoard = useMutation(api.boards.getOrCreateDefaultBoard);
+  const [selectedBoardId, setSelectedBoardId] = useState<Id<"boards"> | null>(null);
+
+  // Fall back to the default board when nothing (or a deleted board) is selected
+  const activeBoardId =
+    boards?.find((board) => board._id === selectedBoardId)?._id ??
+    boards?.find((board) => board.isDefault)?._id ??
+    null;
+
+  const canvasNodes = useQuery(
+    api.boards.listBoardNodes,
+    activeBoardId ? { boardId: activeBoardId } : "skip"
+  );
+  const canvasEdges = useQuery(
+    api.boards.listBoardEdges,
+    activeBoardId ? { boardId: activeBoardId } : "skip"
+  );
   const createNode = useMutation(api.canvas.createNode);
   const updateNode = useMutation(api.canvas.updateNode);
+  const updatePlacement = useMutation(api.boards.updatePlacement);
+  const removeNodeFromBoard = useMutation(api.boards.removeNodeFromBoard);
   const deleteNode = useMutation(api.canvas.deleteNode);
   const createEdge = useMutation(api.canvas.createEdge);
   const deleteEdge = useMutation(api.canvas.deleteEdge);
+  const updateEdge = useMutation(api.canvas.updateEdge);
   const embedCanvasNode = useAction(api.embeddings.embedCanvasNode);
   const findRelated = useAction(api.embeddings.findRelated);
 
   const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>([]);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<Id<"canvasEdges"> | null>(null);
+  const selectedEdge = canvasEdges?.find((edge) => edge._id === selectedEdgeId);
+
+  // First visit after boards were introduced: move the old canvas onto a default board
+  const hasDefaultBoard = boards?.some((board) => board.isDefault);
+  useEffect(() => {
+    if (boards && !hasDefaultBoard) {
+      getOrCreateDefaultBoard().catch(console.error);
+    }
+  }, [boards, hasDefaultBoard, getOrCreateDefaultBoard]);
+
+  const boardNodeIds = useMemo(
+    () => new Set<string>(canvasNodes?.map((node) => node._id) ?? []),
+    [canvasNodes]
+  );
 
   // Theme-aware colors
   const edgeColor = theme === "dark" ? "#6366f1" : "#8f3f71";
@@ -65,7 +111,8 @@ export function MemexCanvas() {
             await createEdge({
               source: nodeId,
               target: node._id as Id<"canvasNodes">,
-              label: `${Math.round(node.score * 100)}%`,
+              kind: "similar",
+              score: node.score,
             });
           }
         }
@@ -95,6 +142,7 @@ export function MemexCanvas() {
         x: number;
         y: number;
         content: string;
+        title?: string;
         messageId?: Id<"messages">;
         conversationId?: Id<"conversations">;
         width?: number;
@@ -105,6 +153,7 @@ export function MemexCanvas() {
         position: { x: node.x, y: node.y },
         data: {
           content: node.content,
+          title: node.title,
           messageId: node.messageId,
           conversationId: node.conversationId,
           onContentChange: (content: string) => {
@@ -136,16 +185,24 @@ export function MemexCanvas() {
         source: Id<"canvasNodes">;
         target: Id<"canvasNodes">;
         label?: string;
-      }) => ({
-        id: edge._id,
-        source: edge.source,
-        target: edge.target,
-        label: edge.label,
-        animated: true,
-        style: { stroke: edgeColor },
-        labelStyle: { fill: edgeLabelColor, fontSize: 10 },
-        labelBgStyle: { fill: edgeLabelBgColor, fillOpacity: 0.9 },
-      }));
+        kind?: EdgeKind;
+        score?: number;
+      }) => {
+        const kindStyle = getEdgeKindStyle(edge.kind);
+        return {
+          id: edge._id,
+          source: edge.source,
+          target: edge.target,
+          label: formatEdgeLabel(edge),
+          animated: true,
+          style: {
+            stroke: kindStyle?.color ?? edgeColor,
+            strokeDasharray: kindStyle?.dashed ? "6 4" : undefined,
+          },
+          labelStyle: { fill: kindStyle?.color ?? edgeLabelColor, fontSize: 10 },
+          labelBgStyle: { fill: edgeLabelBgColor, fillOpacity: 0.9 },
+        };
+      });
       setEdges(flowEdges);
     }
   }, [canvasEdges, setEdges, edgeColor, edgeLabelColor, edgeLabelBgColor]);
@@ -154,35 +211,47 @@ export function MemexCanvas() {
     (changes) => {
       onNodesChange(changes);
 
-      // Persist position changes to Convex
+      if (!activeBoardId) return;
+
+      // Persist position changes to this board's placement
       changes.forEach((change) => {
         if (
           change.type === "position" &&
           change.position &&
           change.dragging === false
         ) {
-          updateNode({
-            id: change.id as Id<"canvasNodes">,
+          updatePlacement({
+            boardId: activeBoardId,
+            nodeId: change.id as Id<"canvasNodes">,
             x: change.position.x,
             y: change.position.y,
           });
         }
+
+        // Deleting a node on the canvas only takes it off this board
+        if (change.type === "remove") {
+          removeNodeFromBoard({
+            boardId: activeBoardId,
+            nodeId: change.id as Id<"canvasNodes">,
+          });
+        }
       });
     },
-    [onNodesChange, updateNode],
+    [onNodesChange, activeBoardId, updatePlacement, removeNodeFromBoard],
   );
 
-  const handleEdgesChange: OnEdgesChange = useCallback(
-    (changes) => {
-      onEdgesChange(changes);
-
-      changes.forEach((change) => {
-        if (change.type === "remove") {
-          deleteEdge({ id: change.id as Id<"canvasEdges"> });
+  // Edges removed along with a node only leave this board with it; delete just
+  // the edges the user removed between nodes that stay
+  const handleDelete: OnDelete = useCallback(
+    ({ nodes: removedNodes, edges: removedEdges }) => {
+      const removedIds = new Set(removedNodes.map((node) => node.id));
+      removedEdges.forEach((edge) => {
+        if (!removedIds.has(edge.source) && !removedIds.has(edge.target)) {
+          deleteEdge({ id: edge.id as Id<"canvasEdges"> });
         }
       });
     },
-    [onEdgesChange, deleteEdge],
+    [deleteEdge],
   );
 
   const onConnect = useCallback(
@@ -202,7 +271,7 @@ export function MemexCanvas() {
     async (event: React.MouseEvent) => {
       const target = event.target as HTMLElement;
       // Only create node if clicking on the pane, not on existing nodes
-      if (!target.closest(".react-flow__node")) {
+      if (!target.closest(".react-flow__node") && activeBoardId) {
         const bounds = target.closest(".react-flow")?.getBoundingClientRect();
         if (!bounds) return;
 
@@ -214,6 +283,7 @@ export function MemexCanvas() {
           content: "New note...",
           x,
           y,
+          boardId: activeBoardId,
         });
 
         // Embed the new node
@@ -222,7 +292,7 @@ export function MemexCanvas() {
         );
       }
     },
-    [createNode, embedCanvasNode],
+    [createNode, embedCanvasNode, activeBoardId],
   );
 
   return (
@@ -231,13 +301,55 @@ export function MemexCanvas() {
         nodes={nodes}
         edges={edges}
         onNodesChange={handleNodesChange}
-        onEdgesChange={handleEdgesChange}
+        onEdgesChange={onEdgesChange}
+        onDelete={handleDelete}
         onConnect={onConnect}
         onDoubleClick={onDoubleClick}
+        onEdgeClick={(_, edge) => setSelectedEdgeId(edge.id as Id<"canvasEdges">)}
+        onPaneClick={() => setSelectedEdgeId(null)}
         nodeTypes={nodeTypes}
         fitView
         className="bg-background"
       >
+        {boards && activeBoardId && (
+          <Panel position="top-left">
+            <BoardSwitcher
+              boards={boards}
+              activeBoardId={activeBoardId}
+              boardNodeIds={boardNodeIds}
+              onSelect={setSelectedBoardId}
+            />
+          </Panel>
+        )}
+        {selectedEdge && (
+          <Panel position="top-right">
+            <div className="flex items-center gap-2 bg-card border border-border rounded-lg p-1 pl-3 shadow-md text-sm">
+              <span className="text-muted-foreground">Relationship</span>
+              <Select
+                value={selectedEdge.kind ?? NO_KIND}
+                onValueChange={(value) =>
+                  updateEdge({
+                    id: selectedEdge._id,
+                    kind: value === NO_KIND ? undefined : (value as EdgeKind),
+                    label: selectedEdge.label,
+                  })
+                }
+              >
+                <SelectTrigger className="w-36 h-7 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_KIND}>None</SelectItem>
+                  {EDGE_KINDS.map(({ kind, name, color }) => (
+                    <SelectItem key={kind} value={kind}>
+                      <span style={{ color }}>{name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </Panel>
+        )}
         <Background color={gridColor} gap={20} />
         <Controls />
         <MiniMap
@@ -2,9 +2,11 @@
 
 import { Handle, Position, NodeProps } from "@xyflow/react";
 import { useState, useMemo } from "react";
+import { extractNoteTitle } from "../../../../convex/lib/notes";
 
 interface NoteNodeData {
   content: string;
+  title?: string;
   onContentChange: (content: string) => void;
   onDelete: () => void;
   onFindRelated: () => void;
@@ -18,22 +20,19 @@ function stripHtml(html: string): string {
     .trim();
 }
 
-// Extract title from content (first heading or first line)
-function extractTitle(content: string): string {
-  const text = stripHtml(content);
-  const firstLine = text.split(/\n/)[0] || text.slice(0, 50);
-  return firstLine.replace(/^#+\s*/, "").trim().slice(0, 50) || "Untitled";
-}
-
 export function NoteNode({ data }: NodeProps) {
-  const { content, onContentChange, onDelete, onFindRelated } =
+  const { content, title: storedTitle, onContentChange, onDelete, onFindRelated } =
     data as unknown as NoteNodeData;
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(content);
   
   // Get clean text for display
   const displayText = useMemo(() => stripHtml(content), [content]);
-  const title = useMemo(() => extractTitle(content), [content]);
+  // Notes saved before titles were stored fall back to parsing the content
+  const title = useMemo(
+    () => (storedTitle ?? extractNoteTitle(content)).slice(0, 50),
+    [storedTitle, content]
+  );
 
   const handleBlur = () => {
     setIsEditing(false);
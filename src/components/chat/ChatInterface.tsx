@@ -16,6 +16,8 @@ import {
 } from "@/lib/tiptap/note-mention";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { MODELS, DEFAULT_MODEL, type ModelId } from "@/lib/models";
+import { appendContext } from "@/lib/retrieval";
+import { toPlainText } from "../../../convex/lib/search";
 
 interface ChatInterfaceProps {
   conversationId: Id<"conversations">;
@@ -35,7 +37,7 @@ export function ChatInterface({
   const deleteMessage = useMutation(api.messages.remove);
   const updateTitle = useMutation(api.conversations.updateTitle);
   const embedMessage = useAction(api.embeddings.embedMessage);
-  const findRelated = useAction(api.embeddings.findRelated);
+  const retrieveContext = useAction(api.retrieval.retrieveContext);
 
   const { messages, sendMessage, status, stop, error, setMessages, regenerate } =
     useChat({
@@ -77,20 +79,13 @@ export function ChatInterface({
   const isLoading = status === "streaming" || status === "submitted";
   const isReady = status === "ready";
 
-  // Extract note titles for @mention suggestions (first line only)
+  // Note titles for @mention suggestions
   const noteTitles = useMemo(() => {
     if (!notes) return [];
-    return notes.map((n) => {
-      // Strip HTML tags first, then get first line
-      const textContent = n.content.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
-      const firstLine = textContent.split("\n")[0];
-      // Remove markdown heading prefix
-      const title = firstLine.replace(/^#\s*/, "").trim().slice(0, 50) || "Untitled";
-      return {
-        id: n._id,
-        label: title,
-      };
-    });
+    return notes.map((n) => ({
+      id: n._id,
+      label: n.title || "Untitled",
+    }));
   }, [notes]);
 
   // Handle message submission with note context (manual @mentions + automatic RAG)
@@ -98,52 +93,32 @@ export function ChatInterface({
     async (text: string, mentions: Array<{ id: string; label: string }>) => {
       if (!text.trim() || !isReady) return;
 
-      // Build context from manually mentioned notes
-      const mentionedNoteContents: string[] = [];
-      const mentionedNoteIds = new Set<string>();
-      
-      if (mentions.length > 0 && notes) {
-        mentions.forEach((mention) => {
-          const note = notes.find((n) => n._id === mention.id);
-          if (note) {
-            mentionedNoteContents.push(`[Note: ${mention.label}]\n${note.content}`);
-            mentionedNoteIds.add(mention.id);
-          }
-        });
-      }
-
-      // Auto-RAG: Find related notes if no explicit mentions (or in addition to them)
-      let ragNoteContents: string[] = [];
+      // Mentioned notes plus notes retrieved by keyword and meaning
+      let messageWithContext = text;
       try {
-        const related = await findRelated({ query: text, limit: 3 });
-        // Only include notes (not messages) for RAG context
-        // Filter out notes that were already explicitly mentioned
-        const relevantNotes = related.nodes
-          .filter((n): n is NonNullable<typeof n> => n !== null)
-          .filter((n) => !mentionedNoteIds.has(n._id))
-          .filter((n) => n.score > 0.3); // Only include if reasonably relevant
-        
-        if (relevantNotes.length > 0) {
-          ragNoteContents = relevantNotes.map((n) => {
-            const title = n.content.split('\n')[0].replace(/^#\s*/, '').slice(0, 50) || 'Untitled';
-            return `[Related Note (${Math.round(n.score * 100)}% match): ${title}]\n${n.content.slice(0, 500)}${n.content.length > 500 ? '...' : ''}`;
-          });
-        }
+        const context = await retrieveContext({
+          query: text,
+          mentionedNoteIds: mentions.map((mention) => mention.id as Id<"canvasNodes">),
+        });
+        messageWithContext = appendContext(text, context.items);
       } catch (err) {
-        console.error("RAG search failed:", err);
-      }
-
-      // Combine all context
-      let messageWithContext = text;
-      const allContext = [...mentionedNoteContents, ...ragNoteContents];
-      
-      if (allContext.length > 0) {
-        const contextLabel = mentionedNoteContents.length > 0 && ragNoteContents.length > 0
-          ? "Referenced & Related Notes"
-          : mentionedNoteContents.length > 0
-          ? "Referenced Notes"
-          : "Related Notes (auto-retrieved)";
-        messageWithContext = `${text}\n\n---\n${contextLabel}:\n${allContext.join("\n\n")}`;
+        console.error("Context retrieval failed:", err);
+        // Still send the notes the user mentioned explicitly
+        const mentioned = mentions.flatMap((mention) => {
+          const note = notes?.find((n) => n._id === mention.id);
+          if (!note) return [];
+          return [
+            {
+              _id: note._id,
+              title: mention.label,
+              content: toPlainText(note.content),
+              reasons: ["mentioned" as const],
+              tokens: 0,
+              truncated: false,
+            },
+          ];
+        });
+        messageWithContext = appendContext(text, mentioned);
       }
 
       // Save user message to Convex (just the text, not the context)
@@ -173,7 +148,7 @@ export function ChatInterface({
     [
       isReady,
       notes,
-      findRelated,
+      retrieveContext,
       sendMessageToDb,
       conversationId,
       embedMessage,
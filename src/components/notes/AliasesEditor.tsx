@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Plus, X } from "lucide-react";
+
+interface AliasesEditorProps {
+  noteId: Id<"canvasNodes">;
+}
+
+// Alternate names the note can be linked by, e.g. [[ZK]] for "Zettelkasten"
+export function AliasesEditor({ noteId }: AliasesEditorProps) {
+  const aliases = useQuery(api.aliases.getAliases, { nodeId: noteId });
+  const setAliases = useMutation(api.aliases.setAliases);
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  if (aliases === undefined) return <div />;
+
+  const handleAdd = async () => {
+    const alias = draft.trim();
+    if (alias) {
+      await setAliases({ nodeId: noteId, aliases: [...aliases, alias] });
+    }
+    setDraft("");
+    setIsAdding(false);
+  };
+
+  const handleRemove = async (alias: string) => {
+    await setAliases({
+      nodeId: noteId,
+      aliases: aliases.filter((a) => a !== alias),
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground min-h-8">
+      {aliases.length > 0 && <span className="mr-1">Also known as</span>}
+      {aliases.map((alias) => (
+        <span
+          key={alias}
+          className="group flex items-center gap-1 px-2 py-0.5 rounded bg-muted/50"
+        >
+          {alias}
+          <button
+            onClick={() => handleRemove(alias)}
+            className="opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+            title="Remove alias"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {isAdding ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={handleAdd}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+            if (e.key === "Escape") {
+              setDraft("");
+              setIsAdding(false);
+            }
+          }}
+          placeholder="Alias"
+          className="w-32 px-2 py-0.5 bg-background border border-border rounded focus:outline-none focus:border-primary"
+        />
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-muted hover:text-foreground transition-colors"
+          title="Add an alternate name this note can be linked by"
+        >
+          <Plus className="w-3 h-3" />
+          Alias
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Atom, X, Loader2 } from "lucide-react";
+import { contentToLines } from "@/lib/diff";
+
+// Concept shape returned by /api/extract-concepts
+interface ProposedConcept {
+  title: string;
+  content: string;
+  suggestedLinks: string[];
+  tags: string[];
+  selected: boolean;
+}
+
+interface AtomizeDialogProps {
+  noteId: Id<"canvasNodes">;
+  noteContent: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function AtomizeDialog({
+  noteId,
+  noteContent,
+  isOpen,
+  onClose,
+}: AtomizeDialogProps) {
+  const notes = useQuery(api.canvas.listNotes, isOpen ? {} : "skip");
+  const atomizeNote = useMutation(api.canvas.atomizeNote);
+  const embedNode = useAction(api.embeddings.embedCanvasNode);
+
+  const [concepts, setConcepts] = useState<ProposedConcept[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedConcepts = concepts?.filter((c) => c.selected) ?? [];
+
+  const handleClose = () => {
+    setConcepts(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleSuggest = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/extract-concepts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: contentToLines(noteContent).join("\n"),
+          existingNotes: notes
+            ?.filter((n) => n._id !== noteId)
+            .map((n) => ({ content: n.content })),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Concept extraction failed");
+      }
+
+      const data = await response.json();
+      setConcepts(
+        data.concepts.map((c: Omit<ProposedConcept, "selected">) => ({
+          ...c,
+          selected: true,
+        }))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Concept extraction failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateConcept = (index: number, updates: Partial<ProposedConcept>) => {
+    setConcepts((prev) =>
+      prev?.map((c, i) => (i === index ? { ...c, ...updates } : c)) ?? null
+    );
+  };
+
+  const handleCreate = async () => {
+    if (selectedConcepts.length === 0) return;
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const children = selectedConcepts.map(
+        ({ title, content, suggestedLinks, tags }) => ({
+          title,
+          content,
+          suggestedLinks,
+          tags,
+        })
+      );
+      const created = await atomizeNote({
+        parentId: noteId,
+        concepts: children,
+      });
+
+      // Embed the new notes as stored (with their heading and links)
+      created.forEach((child) => {
+        embedNode({ nodeId: child._id, content: child.content }).catch(
+          console.error
+        );
+      });
+
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create notes");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-xl w-full max-w-2xl mx-4 max-h-[80vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Atom className="w-5 h-5" />
+            Atomize Note
+          </h2>
+          <button
+            onClick={handleClose}
+            className="p-1 hover:bg-muted rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {concepts === null ? (
+            <p className="text-sm text-muted-foreground">
+              Split this note into atomic notes, one idea each. You can review
+              and edit the suggestions before anything is created. Each new
+              note links back to this one.
+            </p>
+          ) : concepts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No separate ideas found in this note.
+            </p>
+          ) : (
+            concepts.map((concept, i) => (
+              <div
+                key={i}
+                className={`p-3 border rounded-lg space-y-2 transition-opacity ${
+                  concept.selected ? "border-border" : "border-border/50 opacity-50"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={concept.selected}
+                    onChange={(e) => updateConcept(i, { selected: e.target.checked })}
+                  />
+                  <input
+                    value={concept.title}
+                    onChange={(e) => updateConcept(i, { title: e.target.value })}
+                    className="flex-1 px-2 py-1 bg-background border border-border rounded text-sm font-medium focus:outline-none focus:border-primary"
+                  />
+                </div>
+                <textarea
+                  value={concept.content}
+                  onChange={(e) => updateConcept(i, { content: e.target.value })}
+                  rows={3}
+                  className="w-full px-2 py-1 bg-background border border-border rounded text-sm resize-none focus:outline-none focus:border-primary"
+                />
+                {concept.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {concept.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="px-2 py-0.5 rounded text-xs bg-muted/50 text-muted-foreground"
+                      >
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-border">
+          {concepts === null ? (
+            <button
+              onClick={handleSuggest}
+              disabled={isLoading}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Finding ideas...
+                </>
+              ) : (
+                "Suggest atomic notes"
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={handleCreate}
+              disabled={isCreating || selectedConcepts.length === 0}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+            >
+              {isCreating && <Loader2 className="w-4 h-4 animate-spin" />}
+              Create {selectedConcepts.length} note
+              {selectedConcepts.length !== 1 ? "s" : ""}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,19 @@
 "use client";
 
-import { useQuery } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
-import { ChevronDown, ChevronRight, Link2 } from "lucide-react";
+import { ChevronDown, ChevronRight, Link, Link2, TextQuote } from "lucide-react";
 import { useState } from "react";
+import { EDGE_KINDS } from "@/lib/edges";
+import { HighlightedSnippet } from "@/components/search/HighlightedSnippet";
+
+interface BacklinkGroup {
+  key: string;
+  name: string;
+  color?: string;
+  notes: { _id: Id<"canvasNodes">; title?: string; references?: string[] }[];
+}
 
 interface BacklinksPanelProps {
   noteTitle: string;
@@ -18,54 +27,184 @@ export function BacklinksPanel({
   onNavigate,
 }: BacklinksPanelProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [isUnlinkedExpanded, setIsUnlinkedExpanded] = useState(false);
   const backlinks = useQuery(
     api.canvas.getWikiLinkBacklinks,
     noteTitle ? { noteTitle } : "skip"
   );
 
+  const edgeBacklinks = useQuery(api.canvas.getBacklinks, {
+    nodeId: currentNoteId,
+  });
+
+  // Notes that name this one without linking it
+  const unlinkedMentions = useQuery(api.links.getUnlinkedMentions, {
+    nodeId: currentNoteId,
+  });
+  const linkMention = useMutation(api.links.linkMention);
+
   // Filter out the current note from backlinks
   const filteredBacklinks = backlinks?.filter(
     (note) => note._id !== currentNoteId
   );
 
-  // Don't render anything if there are no backlinks
-  if (!filteredBacklinks || filteredBacklinks.length === 0) {
+  // Wiki links first, then canvas connections grouped by relationship type
+  const groups: BacklinkGroup[] = [
+    { key: "wiki", name: "Linked from", notes: filteredBacklinks ?? [] },
+    ...EDGE_KINDS.map(({ kind, name, color }) => ({
+      key: kind,
+      name,
+      color,
+      notes: edgeBacklinks?.filter((note) => note?.edgeKind === kind) ?? [],
+    })),
+    {
+      key: "connected",
+      name: "Connected",
+      notes: edgeBacklinks?.filter((note) => note && !note.edgeKind) ?? [],
+    },
+  ]
+    .map((group) => ({
+      ...group,
+      notes: group.notes.filter((note) => note !== null),
+    }))
+    .filter((group) => group.notes.length > 0);
+
+  const total = groups.reduce((sum, group) => sum + group.notes.length, 0);
+  const unlinkedTotal =
+    unlinkedMentions?.reduce((sum, note) => sum + note.mentions.length, 0) ?? 0;
+
+  const handleLinkMention = async (
+    sourceId: Id<"canvasNodes">,
+    mention: { index: number; text: string }
+  ) => {
+    try {
+      await linkMention({
+        sourceId,
+        targetId: currentNoteId,
+        index: mention.index,
+        text: mention.text,
+      });
+    } catch (error) {
+      console.error("Failed to link mention:", error);
+    }
+  };
+
+  // Don't render anything if there are no backlinks or mentions
+  if (total === 0 && unlinkedTotal === 0) {
     return null;
   }
 
   return (
     <div className="border-t border-border bg-muted/30">
-      <button
-        onClick={() => setIsExpanded(!isExpanded)}
-        className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
-      >
-        {isExpanded ? (
-          <ChevronDown className="h-4 w-4" />
-        ) : (
-          <ChevronRight className="h-4 w-4" />
-        )}
-        <Link2 className="h-4 w-4" />
-        <span>
-          {filteredBacklinks.length} Backlink
-          {filteredBacklinks.length !== 1 ? "s" : ""}
-        </span>
-      </button>
+      {total > 0 && (
+        <>
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+          >
+            {isExpanded ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+            <Link2 className="h-4 w-4" />
+            <span>
+              {total} Backlink
+              {total !== 1 ? "s" : ""}
+            </span>
+          </button>
+
+          {isExpanded && (
+            <div className="px-4 pb-4 space-y-3">
+              {groups.map((group) => (
+                <div key={group.key}>
+                  <div
+                    className="px-3 pb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground"
+                    style={group.color ? { color: group.color } : undefined}
+                  >
+                    {group.name}
+                  </div>
+                  <ul className="space-y-1">
+                    {group.notes.map((note) => (
+                      <li key={note._id}>
+                        <button
+                          onClick={() => onNavigate(note._id)}
+                          className="w-full text-left px-3 py-2 text-sm rounded-md hover:bg-muted transition-colors text-foreground/80 hover:text-foreground flex items-center gap-2"
+                        >
+                          <span className="truncate">{note.title || "Untitled"}</span>
+                          {/* Headings or blocks of this note the link points at */}
+                          {note.references?.map((reference) => (
+                            <span
+                              key={reference}
+                              className="shrink-0 px-1.5 py-0.5 rounded bg-muted/50 text-xs text-muted-foreground"
+                            >
+                              {reference}
+                            </span>
+                          ))}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {unlinkedTotal > 0 && (
+        <>
+          <button
+            onClick={() => setIsUnlinkedExpanded(!isUnlinkedExpanded)}
+            className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors"
+          >
+            {isUnlinkedExpanded ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+            <TextQuote className="h-4 w-4" />
+            <span>
+              {unlinkedTotal} Unlinked mention
+              {unlinkedTotal !== 1 ? "s" : ""}
+            </span>
+          </button>
 
-      {isExpanded && (
-        <div className="px-4 pb-4">
-          <ul className="space-y-1">
-            {filteredBacklinks.map((note) => (
-              <li key={note._id}>
-                <button
-                  onClick={() => onNavigate(note._id)}
-                  className="w-full text-left px-3 py-2 text-sm rounded-md hover:bg-muted transition-colors text-foreground/80 hover:text-foreground"
-                >
-                  {note.title}
-                </button>
-              </li>
-            ))}
-          </ul>
-        </div>
+          {isUnlinkedExpanded && (
+            <ul className="px-4 pb-4 space-y-3">
+              {unlinkedMentions?.map((note) => (
+                <li key={note._id}>
+                  <button
+                    onClick={() => onNavigate(note._id)}
+                    className="w-full text-left px-3 py-1 text-sm font-medium rounded-md hover:bg-muted transition-colors text-foreground/80 hover:text-foreground truncate"
+                  >
+                    {note.title || "Untitled"}
+                  </button>
+                  <ul className="space-y-1">
+                    {note.mentions.map((mention) => (
+                      <li
+                        key={mention.index}
+                        className="flex items-start gap-2 px-3 py-1.5 rounded-md hover:bg-muted/50"
+                      >
+                        <p className="flex-1 text-sm text-muted-foreground line-clamp-2">
+                          <HighlightedSnippet snippet={mention.snippet} />
+                        </p>
+                        <button
+                          onClick={() => handleLinkMention(note._id, mention)}
+                          className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-md text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                          title={`Link "${mention.text}" to this note`}
+                        >
+                          <Link className="h-3 w-3" />
+                          Link
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
       )}
     </div>
   );
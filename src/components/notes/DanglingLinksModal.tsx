@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Unlink, Plus, X, Loader2 } from "lucide-react";
+
+interface DanglingLinksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onNavigate: (id: Id<"canvasNodes">) => void;
+}
+
+export function DanglingLinksModal({
+  isOpen,
+  onClose,
+  onNavigate,
+}: DanglingLinksModalProps) {
+  const danglingLinks = useQuery(
+    api.links.listDanglingLinks,
+    isOpen ? {} : "skip"
+  );
+  const createStubNotes = useMutation(api.links.createStubNotes);
+  const [isCreatingAll, setIsCreatingAll] = useState(false);
+
+  const handleCreateAll = async () => {
+    if (!danglingLinks) return;
+    setIsCreatingAll(true);
+    try {
+      await createStubNotes({ titles: danglingLinks.map((link) => link.title) });
+    } finally {
+      setIsCreatingAll(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-xl w-full max-w-md mx-4 max-h-[80vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Unlink className="w-5 h-5" />
+            Unresolved Links
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-muted rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="px-4 pt-3 text-xs text-muted-foreground">
+          Wiki links that don&apos;t point at any note yet.
+        </p>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {danglingLinks === undefined && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {danglingLinks?.length === 0 && (
+            <div className="text-center text-sm text-muted-foreground py-6">
+              Every link resolves to a note
+            </div>
+          )}
+          {danglingLinks?.map((link) => (
+            <div
+              key={link.title}
+              className="px-3 py-2 border border-border rounded-lg"
+            >
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    [[{link.title}]]
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Linked from {link.count} note{link.count !== 1 ? "s" : ""}
+                  </div>
+                </div>
+                <button
+                  onClick={async () => {
+                    const [id] = await createStubNotes({ titles: [link.title] });
+                    if (id) onNavigate(id);
+                  }}
+                  className="p-1.5 hover:bg-muted rounded transition-colors"
+                  title="Create note"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-1">
+                {link.sources.map((source) => (
+                  <button
+                    key={source._id}
+                    onClick={() => onNavigate(source._id)}
+                    className="px-2 py-0.5 rounded text-xs bg-muted/50 text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {source.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {danglingLinks && danglingLinks.length > 0 && (
+          <div className="p-4 border-t border-border">
+            <button
+              onClick={handleCreateAll}
+              disabled={isCreatingAll}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+            >
+              {isCreatingAll && <Loader2 className="w-4 h-4 animate-spin" />}
+              Create {danglingLinks.length} note
+              {danglingLinks.length !== 1 ? "s" : ""}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
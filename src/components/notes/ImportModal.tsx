@@ -1,11 +1,20 @@
 "use client";
 
 import { useState } from "react";
-import { useMutation, useAction } from "convex/react";
+import { useMutation, useAction, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
-import { Link, Youtube, BookOpen, X, Loader2 } from "lucide-react";
+import { Link, Youtube, BookOpen, FileText, X, Loader2 } from "lucide-react";
+import { parseFrontmatter } from "@/lib/properties";
 
-type ImportType = "url" | "youtube" | "readwise";
+type ImportType = "url" | "youtube" | "readwise" | "markdown";
+
+// Book note shape returned by /api/import/readwise
+interface ReadwiseBookNote {
+  title: string;
+  content: string;
+  sourceUrl: string;
+  tags: string[];
+}
 
 interface ImportModalProps {
   isOpen: boolean;
@@ -20,7 +29,15 @@ export function ImportModal({ isOpen, onClose, onSuccess }: ImportModalProps) {
   const [error, setError] = useState<string | null>(null);
 
   const createNode = useMutation(api.canvas.createNode);
+  const addTagsToNode = useMutation(api.tags.addTagsToNode);
+  const setAliases = useMutation(api.aliases.setAliases);
+  const setProperty = useMutation(api.properties.setProperty);
   const embedNode = useAction(api.embeddings.embedCanvasNode);
+  // Books imported before, so repeated Readwise imports don't duplicate them
+  const importedReadwiseUrls = useQuery(
+    api.canvas.getImportedSourceUrls,
+    isOpen ? { sourceType: "readwise" } : "skip"
+  );
 
   const handleImport = async () => {
     if (!url.trim()) return;
@@ -73,6 +90,111 @@ export function ImportModal({ isOpen, onClose, onSuccess }: ImportModalProps) {
     }
   };
 
+  const handleReadwiseImport = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/import/readwise", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Import failed");
+      }
+
+      const data = await response.json();
+      const allBooks: ReadwiseBookNote[] = data.books;
+      if (allBooks.length === 0) {
+        throw new Error("No Readwise highlights found");
+      }
+
+      const imported = new Set(importedReadwiseUrls ?? []);
+      const books = allBooks.filter((book) => !imported.has(book.sourceUrl));
+      if (books.length === 0) {
+        throw new Error("All Readwise books are already imported");
+      }
+
+      // Create one note per book, keeping the highlight tags
+      let firstNodeId: string | null = null;
+      for (const book of books) {
+        const nodeId = await createNode({
+          type: "note",
+          content: book.content,
+          x: 0,
+          y: 0,
+          sourceType: "readwise",
+          sourceUrl: book.sourceUrl,
+        });
+
+        if (book.tags.length > 0) {
+          await addTagsToNode({ nodeId, tags: book.tags, source: "imported" });
+        }
+
+        await embedNode({ nodeId, content: book.content });
+
+        firstNodeId ??= nodeId;
+      }
+
+      if (firstNodeId) onSuccess(firstNodeId);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMarkdownImport = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // One note per file; YAML frontmatter becomes tags, aliases and properties
+      let firstNodeId: string | null = null;
+      for (const file of Array.from(files)) {
+        const frontmatter = parseFrontmatter(await file.text());
+        const title = frontmatter.title ?? file.name.replace(/\.(md|markdown)$/i, "");
+        const content = frontmatter.body.startsWith("# ")
+          ? frontmatter.body
+          : `# ${title}\n\n${frontmatter.body}`;
+
+        const nodeId = await createNode({
+          type: "note",
+          content,
+          x: 0,
+          y: 0,
+          sourceType: "manual",
+        });
+
+        if (frontmatter.tags.length > 0) {
+          await addTagsToNode({ nodeId, tags: frontmatter.tags, source: "imported" });
+        }
+        if (frontmatter.aliases.length > 0) {
+          await setAliases({ nodeId, aliases: frontmatter.aliases });
+        }
+        for (const property of frontmatter.properties) {
+          await setProperty({ nodeId, ...property });
+        }
+
+        await embedNode({ nodeId, content });
+
+        firstNodeId ??= nodeId;
+      }
+
+      if (firstNodeId) onSuccess(firstNodeId);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -95,6 +217,7 @@ export function ImportModal({ isOpen, onClose, onSuccess }: ImportModalProps) {
             { type: "url" as const, icon: Link, label: "Web Page" },
             { type: "youtube" as const, icon: Youtube, label: "YouTube" },
             { type: "readwise" as const, icon: BookOpen, label: "Readwise" },
+            { type: "markdown" as const, icon: FileText, label: "Markdown" },
           ].map(({ type, icon: Icon, label }) => (
             <button
               key={type}
@@ -113,14 +236,78 @@ export function ImportModal({ isOpen, onClose, onSuccess }: ImportModalProps) {
 
         {/* Content */}
         <div className="p-4 space-y-4">
-          {importType === "readwise" ? (
-            <div className="text-center py-8 text-muted-foreground">
-              <BookOpen className="w-12 h-12 mx-auto mb-3 opacity-50" />
-              <p>Readwise sync coming soon</p>
-              <p className="text-sm mt-1">
-                Configure READWISE_ACCESS_TOKEN in .env.local
-              </p>
-            </div>
+          {importType === "markdown" ? (
+            <>
+              <div className="text-center py-6 text-muted-foreground">
+                <FileText className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p>Import markdown files, one note per file</p>
+                <p className="text-sm mt-1">
+                  Frontmatter tags and aliases carry over, other fields become
+                  note properties
+                </p>
+              </div>
+
+              {error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive text-sm">
+                  {error}
+                </div>
+              )}
+
+              <label
+                className={`w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg font-medium transition-colors ${
+                  isLoading ? "opacity-50 cursor-not-allowed" : "cursor-pointer"
+                }`}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  "Choose files"
+                )}
+                <input
+                  type="file"
+                  accept=".md,.markdown,text/markdown"
+                  multiple
+                  disabled={isLoading}
+                  onChange={(e) => handleMarkdownImport(e.target.files)}
+                  className="hidden"
+                />
+              </label>
+            </>
+          ) : importType === "readwise" ? (
+            <>
+              <div className="text-center py-6 text-muted-foreground">
+                <BookOpen className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p>Import your Readwise highlights, one note per book</p>
+                <p className="text-sm mt-1">
+                  Highlight tags become note tags. Requires
+                  READWISE_ACCESS_TOKEN in .env.local
+                </p>
+              </div>
+
+              {error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                onClick={handleReadwiseImport}
+                disabled={isLoading || importedReadwiseUrls === undefined}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  "Import highlights"
+                )}
+              </button>
+            </>
           ) : (
             <>
               <div>
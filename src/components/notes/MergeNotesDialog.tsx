@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Merge, ArrowLeftRight, X, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { contentToLines } from "@/lib/diff";
+import { convertWikiLinksToHTML } from "@/lib/tiptap/wiki-link";
+
+interface MergeNotesDialogProps {
+  noteId: Id<"canvasNodes">;
+  isOpen: boolean;
+  onClose: () => void;
+  onMerged: (winnerId: Id<"canvasNodes">, content: string) => void;
+}
+
+// Voice-note and imported content may still be markdown
+const toHtml = (content: string) =>
+  content.includes("<") ? content : convertWikiLinksToHTML(content);
+
+export function MergeNotesDialog({
+  noteId,
+  isOpen,
+  onClose,
+  onMerged,
+}: MergeNotesDialogProps) {
+  const notes = useQuery(api.canvas.listNotes, isOpen ? {} : "skip");
+  const mergeNotes = useMutation(api.canvas.mergeNotes);
+
+  const [otherId, setOtherId] = useState<Id<"canvasNodes"> | null>(null);
+  // When true the other note is kept and the current note is merged into it
+  const [keepOther, setKeepOther] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = notes?.find((n) => n._id === noteId);
+  const other = notes?.find((n) => n._id === otherId);
+  const winner = keepOther ? other : current;
+  const loser = keepOther ? current : other;
+
+  const handleClose = () => {
+    setOtherId(null);
+    setKeepOther(false);
+    setError(null);
+    onClose();
+  };
+
+  const handleMerge = async () => {
+    if (!winner || !loser) return;
+    setIsMerging(true);
+    setError(null);
+
+    try {
+      // Loser's content is appended below the winner's
+      const content = `${toHtml(winner.content)}<hr>${toHtml(loser.content)}`;
+      await mergeNotes({ winnerId: winner._id, loserId: loser._id, content });
+      onMerged(winner._id, content);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Merge failed");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const renderNote = (
+    note: typeof current,
+    role: "Keep" | "Merge into the other note"
+  ) => (
+    <div className="flex-1 min-w-0 flex flex-col border border-border rounded-lg overflow-hidden">
+      <div className="px-3 py-2 border-b border-border bg-muted/30">
+        <div className="text-xs text-muted-foreground">{role}</div>
+        <div className="text-sm font-medium truncate">
+          {note?.title || "Untitled"}
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-3 text-sm text-foreground/80 whitespace-pre-wrap">
+        {note ? contentToLines(note.content).join("\n") : null}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-xl w-full max-w-4xl mx-4 h-[80vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Merge className="w-5 h-5" />
+            Merge Notes
+          </h2>
+          <button
+            onClick={handleClose}
+            className="p-1 hover:bg-muted rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-border text-sm">
+          <span className="text-muted-foreground">Merge with</span>
+          <Select
+            value={otherId ?? ""}
+            onValueChange={(id) => setOtherId(id as Id<"canvasNodes">)}
+          >
+            <SelectTrigger className="w-64 h-7 text-sm">
+              <SelectValue placeholder="Choose a note" />
+            </SelectTrigger>
+            <SelectContent>
+              {notes
+                ?.filter((n) => n._id !== noteId)
+                .map((n) => (
+                  <SelectItem key={n._id} value={n._id}>
+                    {n.title || "Untitled"}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          {other && (
+            <button
+              onClick={() => setKeepOther(!keepOther)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+              title="Swap which note is kept"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+              Swap
+            </button>
+          )}
+        </div>
+
+        {/* Side by side */}
+        <div className="flex-1 flex gap-3 p-4 overflow-hidden">
+          {winner && loser ? (
+            <>
+              {renderNote(winner, "Keep")}
+              {renderNote(loser, "Merge into the other note")}
+            </>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+              Choose a note to merge with this one.
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-border space-y-2">
+          {winner && loser && (
+            <p className="text-xs text-muted-foreground">
+              The content of &quot;{loser.title || "Untitled"}&quot; is added
+              below &quot;{winner.title || "Untitled"}&quot;. Its connections,
+              tags and links move over, its title becomes an alias, and the
+              note itself goes to the trash.
+            </p>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <button
+            onClick={handleMerge}
+            disabled={!winner || !loser || isMerging}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+          >
+            {isMerging && <Loader2 className="w-4 h-4 animate-spin" />}
+            Merge notes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
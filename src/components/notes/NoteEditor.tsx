@@ -8,17 +8,35 @@ import { Id } from "../../../convex/_generated/dataModel";
 import { useNoteEditor } from "@/hooks/useNoteEditor";
 import { TextMenu } from "./TextMenu";
 import { BacklinksPanel } from "./BacklinksPanel";
+import { RevisionHistory } from "./RevisionHistory";
+import { AtomizeDialog } from "./AtomizeDialog";
+import { MergeNotesDialog } from "./MergeNotesDialog";
+import { AliasesEditor } from "./AliasesEditor";
+import { PropertiesEditor } from "./PropertiesEditor";
 import { WikiLinkList } from "./WikiLinkList";
+import { NoteEmbedContext, NoteEmbedView } from "./NoteEmbedView";
 import {
   setWikiLinkListComponent,
   setGetNoteTitles,
+  setGetNoteOutline,
   WikiLinkSuggestionItem,
 } from "@/lib/tiptap/wiki-link-suggestion";
-import { extractWikiLinks } from "@/lib/tiptap/wiki-link";
+import {
+  extractWikiLinks,
+  setWikiLinkResolver,
+  wikiLinkResolverKey,
+  WikiLinkAnchor,
+} from "@/lib/tiptap/wiki-link";
+import { findAnchorPosition, getNoteOutline } from "@/lib/tiptap/block-id";
+import { setNoteEmbedComponent } from "@/lib/tiptap/note-embed";
+import { Atom, History, Merge } from "lucide-react";
 
 // Register WikiLinkList component for wiki-link suggestions
 setWikiLinkListComponent(WikiLinkList);
 
+// Register NoteEmbedView component for ![[Note]] embeds
+setNoteEmbedComponent(NoteEmbedView);
+
 interface NoteEditorProps {
   noteId: Id<"canvasNodes">;
   onNavigate: (noteId: Id<"canvasNodes">) => void;
@@ -27,87 +45,163 @@ interface NoteEditorProps {
 export function NoteEditor({ noteId, onNavigate }: NoteEditorProps) {
   const note = useQuery(api.canvas.getNodeById, { id: noteId });
   const notes = useQuery(api.canvas.listNotes);
+  const aliases = useQuery(api.aliases.listAliases);
   const updateNode = useMutation(api.canvas.updateNode);
   const createNode = useMutation(api.canvas.createNode);
+  const renameNote = useMutation(api.canvas.renameNote);
+  const childNotes = useQuery(api.canvas.getChildNotes, { parentId: noteId });
+
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isAtomizeOpen, setIsAtomizeOpen] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
 
   // State to track pending link click (for async handling)
-  const [pendingLinkTitle, setPendingLinkTitle] = useState<string | null>(null);
+  const [pendingLink, setPendingLink] = useState<{
+    title: string;
+    anchor: WikiLinkAnchor;
+  } | null>(null);
+
+  // Heading or block to scroll to once the linked note has loaded
+  const pendingAnchorRef = useRef<{
+    noteId: Id<"canvasNodes">;
+    anchor: WikiLinkAnchor;
+  } | null>(null);
 
   // Query to find note by title (only runs when we have a pending link)
   const linkedNote = useQuery(
     api.canvas.findNoteByTitle,
-    pendingLinkTitle ? { title: pendingLinkTitle } : "skip"
+    pendingLink ? { title: pendingLink.title } : "skip"
   );
 
-  // Extract titles from notes for wiki-link suggestions
+  // Extract titles from notes for wiki-link suggestions, plus aliases
   const noteTitles = useMemo<WikiLinkSuggestionItem[]>(() => {
     if (!notes) return [];
 
-    return notes.map((n) => {
-      // Extract title - strip HTML tags first, then get first line
-      const textContent = n.content.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
-      const firstLine = textContent.split("\n")[0] || textContent.slice(0, 100);
-      const title = firstLine.replace(/^#+\s*/, "").trim().slice(0, 50) || "Untitled";
-      return {
+    return [
+      ...notes.map((n) => ({
         id: n._id,
-        title,
-      };
-    });
-  }, [notes]);
+        title: n.title || "Untitled",
+      })),
+      ...(aliases ?? []).map((a) => ({
+        id: `alias:${a._id}`,
+        title: a.alias,
+        aliasOf: a.noteTitle,
+      })),
+    ];
+  }, [notes, aliases]);
 
   // Update the global getter for note titles
   useEffect(() => {
     setGetNoteTitles(() => noteTitles);
   }, [noteTitles]);
 
+  // Headings and block IDs for [[Note#...]] and [[Note^...]] suggestions
+  useEffect(() => {
+    if (!notes) return;
+    const normalize = (title: string) =>
+      title.replace(/\s+/g, " ").trim().toLowerCase();
+
+    const contentByTitle = new Map<string, string>();
+    for (const n of notes) {
+      contentByTitle.set(normalize(n.title || "Untitled"), n.content);
+    }
+    for (const a of aliases ?? []) {
+      const target = notes.find((n) => n._id === a.nodeId);
+      if (target) contentByTitle.set(normalize(a.alias), target.content);
+    }
+
+    setGetNoteOutline((title) => {
+      const content = contentByTitle.get(normalize(title));
+      return content === undefined ? null : getNoteOutline(content);
+    });
+  }, [notes, aliases]);
+
+  // Handle wiki-link clicks
+  const handleLinkClick = useCallback(
+    (title: string, anchor: WikiLinkAnchor) => {
+      setPendingLink({ title, anchor });
+    },
+    []
+  );
+
+  // Handle content updates - also extract and save outgoing wiki-links
+  const handleUpdate = useCallback(
+    (content: string) => {
+      const outgoingLinks = extractWikiLinks(content);
+      updateNode({ id: noteId, content, outgoingLinks });
+    },
+    [updateNode, noteId]
+  );
+
+  // Initialize editor with the hook
+  const { editor, setContent } = useNoteEditor({
+    initialContent: note?.content || "",
+    onUpdate: handleUpdate,
+    onLinkClick: handleLinkClick,
+  });
+
+  // Scroll to the heading or block a link points at
+  const scrollToAnchor = useCallback(
+    (anchor: WikiLinkAnchor) => {
+      if (!editor || (!anchor.heading && !anchor.block)) return;
+      const pos = findAnchorPosition(editor.state.doc, anchor);
+      if (pos === null) return;
+
+      editor.commands.setTextSelection(pos + 1);
+      const element = editor.view.nodeDOM(pos);
+      if (element instanceof HTMLElement) {
+        element.scrollIntoView({ behavior: "smooth", block: "center" });
+      }
+    },
+    [editor]
+  );
+
   // Handle the result of finding a note by title
   useEffect(() => {
-    if (pendingLinkTitle === null) return;
+    if (pendingLink === null) return;
 
     const handleNavigation = async () => {
       if (linkedNote !== undefined) {
         // Query completed
-        if (linkedNote) {
+        if (linkedNote?._id === noteId) {
+          // Link into this note, just scroll
+          scrollToAnchor(pendingLink.anchor);
+        } else if (linkedNote) {
           // Note exists, navigate to it
+          pendingAnchorRef.current = {
+            noteId: linkedNote._id,
+            anchor: pendingLink.anchor,
+          };
           onNavigate(linkedNote._id);
         } else {
           // Note doesn't exist, create it
           const newId = await createNode({
             type: "note",
-            content: `# ${pendingLinkTitle}\n\n`,
+            content: `# ${pendingLink.title}\n\n`,
             x: 0,
             y: 0,
             sourceType: "manual",
           });
           onNavigate(newId);
         }
-        setPendingLinkTitle(null);
+        setPendingLink(null);
       }
     };
 
     handleNavigation();
-  }, [linkedNote, pendingLinkTitle, onNavigate, createNode]);
-
-  // Handle wiki-link clicks
-  const handleLinkClick = useCallback((title: string) => {
-    setPendingLinkTitle(title);
-  }, []);
-
-  // Handle content updates - also extract and save outgoing wiki-links
-  const handleUpdate = useCallback(
-    (content: string) => {
-      const outgoingLinks = extractWikiLinks(content);
-      updateNode({ id: noteId, content, outgoingLinks });
-    },
-    [updateNode, noteId]
-  );
+  }, [linkedNote, pendingLink, noteId, onNavigate, createNode, scrollToAnchor]);
 
-  // Initialize editor with the hook
-  const { editor, setContent } = useNoteEditor({
-    initialContent: note?.content || "",
-    onUpdate: handleUpdate,
-    onLinkClick: handleLinkClick,
-  });
+  // Style links to notes that don't exist yet; re-check whenever the notes change
+  useEffect(() => {
+    if (!editor || !notes) return;
+    const titles = new Set(
+      noteTitles.map((item) => item.title.replace(/\s+/g, " ").trim().toLowerCase())
+    );
+    setWikiLinkResolver((title) =>
+      titles.has(title.replace(/\s+/g, " ").trim().toLowerCase())
+    );
+    editor.view.dispatch(editor.state.tr.setMeta(wikiLinkResolverKey, true));
+  }, [editor, notes, noteTitles]);
 
   // Update content ONLY when switching to a different note
   // We use a ref to track the previous noteId to avoid resetting on save
@@ -117,16 +211,42 @@ export function NoteEditor({ noteId, onNavigate }: NoteEditorProps) {
       // Switching notes or initial load - update content
       prevNoteIdRef.current = noteId;
       setContent(note.content);
+
+      if (pendingAnchorRef.current?.noteId === noteId) {
+        scrollToAnchor(pendingAnchorRef.current.anchor);
+        pendingAnchorRef.current = null;
+      }
     }
-  }, [noteId, note?.content, setContent]);
+  }, [noteId, note?.content, setContent, scrollToAnchor]);
+
+  // Current note title for backlinks query
+  const noteTitle = note?.title ?? "";
+
+  // Title other notes link to - captured when the note is opened, so a heading
+  // edit can offer to rewrite links that still point at the old title
+  const [linkedTitle, setLinkedTitle] = useState<{
+    noteId: Id<"canvasNodes">;
+    title: string;
+  } | null>(null);
+  if (note && note._id === noteId && linkedTitle?.noteId !== noteId) {
+    setLinkedTitle({ noteId, title: noteTitle });
+  }
+  const previousTitle =
+    linkedTitle?.noteId === noteId && linkedTitle.title !== noteTitle
+      ? linkedTitle.title
+      : null;
+  const staleBacklinks = useQuery(
+    api.canvas.getWikiLinkBacklinks,
+    previousTitle ? { noteTitle: previousTitle } : "skip"
+  );
+  const staleLinkCount =
+    staleBacklinks?.filter((n) => n._id !== noteId).length ?? 0;
 
-  // Extract current note title for backlinks query
-  const noteTitle = useMemo(() => {
-    if (!note?.content) return "";
-    const firstLine = note.content.split("\n")[0];
-    const cleanLine = firstLine.replace(/<[^>]*>/g, ""); // Remove HTML tags
-    return cleanLine.replace(/^#\s*/, "").trim();
-  }, [note?.content]);
+  const handleRenameLinks = useCallback(async () => {
+    if (!previousTitle) return;
+    await renameNote({ id: noteId, title: noteTitle, previousTitle });
+    setLinkedTitle({ noteId, title: noteTitle });
+  }, [renameNote, noteId, noteTitle, previousTitle]);
 
   if (!note) {
     return (
@@ -142,12 +262,121 @@ export function NoteEditor({ noteId, onNavigate }: NoteEditorProps) {
       <div className="flex-1 overflow-y-auto">
         <div className="w-full flex justify-center">
           <div className="w-full max-w-2xl px-6 py-12 md:px-12">
-            <EditorContent editor={editor} className="note-editor" />
+            {/* Aliases and note actions */}
+            <div className="flex items-start justify-between gap-2 -mt-6 mb-6">
+              <AliasesEditor noteId={noteId} />
+              <div className="flex gap-1">
+                <button
+                  onClick={() => setIsAtomizeOpen(true)}
+                  className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                  title="Atomize into separate notes"
+                >
+                  <Atom className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setIsMergeOpen(true)}
+                  className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                  title="Merge with another note"
+                >
+                  <Merge className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                  title="Version history"
+                >
+                  <History className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <PropertiesEditor
+              noteId={noteId}
+              onLinkClick={(title) => handleLinkClick(title, {})}
+            />
+
+            {previousTitle && staleLinkCount > 0 && (
+              <div className="mb-6 p-3 bg-muted/50 border border-border rounded-lg text-sm flex flex-wrap items-center justify-between gap-2">
+                <span className="text-muted-foreground">
+                  {staleLinkCount} note{staleLinkCount !== 1 ? "s" : ""} still
+                  link to &quot;{previousTitle}&quot;
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setLinkedTitle({ noteId, title: noteTitle })}
+                    className="px-3 py-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                  >
+                    Keep
+                  </button>
+                  <button
+                    onClick={handleRenameLinks}
+                    className="px-3 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+                  >
+                    Update links
+                  </button>
+                </div>
+              </div>
+            )}
+            {/* Embeds inside this note can't show the note itself */}
+            <NoteEmbedContext.Provider value={[noteId]}>
+              <EditorContent editor={editor} className="note-editor" />
+            </NoteEmbedContext.Provider>
             {editor && <TextMenu editor={editor} />}
+
+            {/* Atomic notes split from this one */}
+            {childNotes && childNotes.length > 0 && (
+              <div className="mt-10 pt-4 border-t border-border">
+                <div className="px-3 pb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  Atomic notes
+                </div>
+                <ul className="space-y-1">
+                  {childNotes.map((child) => (
+                    <li key={child._id}>
+                      <button
+                        onClick={() => onNavigate(child._id)}
+                        className="w-full text-left px-3 py-2 text-sm rounded-md hover:bg-muted transition-colors text-foreground/80 hover:text-foreground"
+                      >
+                        {child.title || "Untitled"}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      <RevisionHistory
+        noteId={noteId}
+        currentContent={note.content}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestore={setContent}
+      />
+
+      <AtomizeDialog
+        noteId={noteId}
+        noteContent={note.content}
+        isOpen={isAtomizeOpen}
+        onClose={() => setIsAtomizeOpen(false)}
+      />
+
+      <MergeNotesDialog
+        noteId={noteId}
+        isOpen={isMergeOpen}
+        onClose={() => setIsMergeOpen(false)}
+        onMerged={(winnerId, content) => {
+          // This note was kept: show the merged content. Otherwise it is now
+          // in the trash, so open the note it was merged into.
+          if (winnerId === noteId) {
+            setContent(content);
+          } else {
+            onNavigate(winnerId);
+          }
+        }}
+      />
+
       {/* Backlinks panel - fixed at bottom */}
       <BacklinksPanel
         noteTitle={noteTitle}
@@ -0,0 +1,115 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo } from "react";
+import {
+  EditorContent,
+  NodeViewProps,
+  NodeViewWrapper,
+  useEditor,
+} from "@tiptap/react";
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { ExtensionKit } from "@/lib/tiptap/extension-kit";
+import { NoteEmbedOptions } from "@/lib/tiptap/note-embed";
+import { getNoteSection } from "@/lib/tiptap/block-id";
+import { ArrowUpRight, FileText, Loader2 } from "lucide-react";
+
+// Notes rendered around this embed (the open note, then each enclosing embed),
+// so notes that embed each other don't recurse forever
+export const NoteEmbedContext = createContext<Id<"canvasNodes">[]>([]);
+
+// Embeds nested deeper than this only show their header
+const MAX_EMBED_DEPTH = 3;
+
+export function NoteEmbedView({ node, extension }: NodeViewProps) {
+  const { title, heading } = node.attrs as {
+    title: string | null;
+    heading: string | null;
+  };
+  const { onLinkClick } = extension.options as NoteEmbedOptions;
+  const ancestors = useContext(NoteEmbedContext);
+
+  const note = useQuery(
+    api.canvas.findNoteByTitle,
+    title ? { title } : "skip"
+  );
+
+  const isCycle = !!note && ancestors.includes(note._id);
+  const isTooDeep = ancestors.length > MAX_EMBED_DEPTH;
+  const html = useMemo(
+    () =>
+      note && !isCycle && !isTooDeep
+        ? getNoteSection(note.content, heading ?? undefined)
+        : "",
+    [note, isCycle, isTooDeep, heading]
+  );
+
+  // Read-only editor so the embed renders exactly like the note itself
+  const editor = useEditor(
+    {
+      immediatelyRender: true,
+      shouldRerenderOnTransaction: false,
+      editable: false,
+      extensions: ExtensionKit({ onLinkClick, enableWikiLinkSuggestion: false }),
+      editorProps: {
+        attributes: {
+          class: "note-editor-content focus:outline-none",
+        },
+      },
+    },
+    []
+  );
+
+  // Re-render whenever the embedded note changes
+  useEffect(() => {
+    editor?.commands.setContent(html);
+  }, [editor, html]);
+
+  // Shown in place of the content when it can't be rendered
+  let message: React.ReactNode = null;
+  if (!title || note === null) {
+    message = "Note not found";
+  } else if (note === undefined) {
+    message = <Loader2 className="w-4 h-4 animate-spin" />;
+  } else if (isCycle) {
+    message = `"${note.title || "Untitled"}" is already shown above`;
+  } else if (isTooDeep) {
+    message = "Embedded too deeply to show";
+  } else if (heading && !html) {
+    message = `No heading "${heading}" in this note`;
+  }
+
+  return (
+    <NodeViewWrapper
+      className="note-embed my-3 border border-border rounded-lg bg-muted/20 overflow-hidden"
+      contentEditable={false}
+      data-drag-handle
+    >
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border text-xs text-muted-foreground">
+        <FileText className="w-3.5 h-3.5 shrink-0" />
+        <span className="truncate font-medium">
+          {note?.title || title || "Untitled"}
+          {heading && <span className="font-normal"> # {heading}</span>}
+        </span>
+        <button
+          onClick={() => title && onLinkClick?.(title, { heading: heading ?? undefined })}
+          className="ml-auto p-1 rounded hover:bg-muted hover:text-foreground transition-colors"
+          title="Open note"
+        >
+          <ArrowUpRight className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {message || !note ? (
+        <div className="px-3 py-2 text-sm text-muted-foreground">{message}</div>
+      ) : (
+        <div className="px-3 py-1">
+          <NoteEmbedContext.Provider value={[...ancestors, note._id]}>
+            <EditorContent editor={editor} />
+          </NoteEmbedContext.Provider>
+        </div>
+      )}
+    </NodeViewWrapper>
+  );
+}
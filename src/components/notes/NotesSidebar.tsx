@@ -1,9 +1,10 @@
 "use client";
 
+import { useState } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
-import { FileText, Plus, Trash2, Download, Calendar } from "lucide-react";
+import { FileText, Plus, Trash2, Download, Calendar, Unlink } from "lucide-react";
 
 interface NotesSidebarProps {
   selectedId: Id<"canvasNodes"> | null;
@@ -11,10 +12,26 @@ interface NotesSidebarProps {
   onClose?: () => void;
   onImportClick?: () => void;
   onDailyNoteClick?: () => void;
+  onTrashClick?: () => void;
+  onDanglingLinksClick?: () => void;
 }
 
-export function NotesSidebar({ selectedId, onSelect, onClose, onImportClick, onDailyNoteClick }: NotesSidebarProps) {
-  const notes = useQuery(api.canvas.listNotes);
+export function NotesSidebar({ selectedId, onSelect, onClose, onImportClick, onDailyNoteClick, onTrashClick, onDanglingLinksClick }: NotesSidebarProps) {
+  const [selectedTagId, setSelectedTagId] = useState<Id<"tags"> | null>(null);
+  const allNotes = useQuery(api.canvas.listNotes);
+  const tags = useQuery(api.tags.listTags);
+
+  // Ignore the tag filter once the tag no longer exists (e.g. last use removed)
+  const activeTagId =
+    selectedTagId && tags?.some((tag) => tag._id === selectedTagId)
+      ? selectedTagId
+      : null;
+  const taggedNotes = useQuery(
+    api.tags.listNotesByTag,
+    activeTagId ? { tagId: activeTagId } : "skip"
+  );
+  const notes = activeTagId ? taggedNotes : allNotes;
+
   const createNode = useMutation(api.canvas.createNode);
   const deleteNode = useMutation(api.canvas.deleteNode);
 
@@ -35,16 +52,6 @@ export function NotesSidebar({ selectedId, onSelect, onClose, onImportClick, onD
     await deleteNode({ id });
   };
 
-  // Extract title from note content (handles both HTML and markdown)
-  const getTitle = (content: string) => {
-    // Strip HTML tags first
-    const textContent = content.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
-    // Get first line
-    const firstLine = textContent.split("\n")[0];
-    // Remove markdown heading prefix and clean up
-    return firstLine.replace(/^#\s*/, "").trim().slice(0, 50) || "Untitled";
-  };
-
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString();
   };
@@ -69,6 +76,20 @@ export function NotesSidebar({ selectedId, onSelect, onClose, onImportClick, onD
           >
             <Download className="w-4 h-4" />
           </button>
+          <button
+            onClick={onDanglingLinksClick}
+            className="p-2 hover:bg-muted rounded-lg transition-colors"
+            title="Unresolved links"
+          >
+            <Unlink className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onTrashClick}
+            className="p-2 hover:bg-muted rounded-lg transition-colors"
+            title="Trash"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
           <button
             onClick={handleNewNote}
             className="p-2 hover:bg-muted rounded-lg transition-colors"
@@ -79,11 +100,36 @@ export function NotesSidebar({ selectedId, onSelect, onClose, onImportClick, onD
         </div>
       </div>
 
+      {/* Tag filter */}
+      {tags && tags.length > 0 && (
+        <div className="px-4 py-2 border-b border-border flex flex-wrap gap-1 max-h-28 overflow-y-auto">
+          {tags.map((tag) => (
+            <button
+              key={tag._id}
+              onClick={() =>
+                setSelectedTagId(activeTagId === tag._id ? null : tag._id)
+              }
+              className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                activeTagId === tag._id
+                  ? "bg-accent text-accent-foreground"
+                  : "bg-muted/50 text-muted-foreground hover:text-foreground"
+              }`}
+              title={`Show notes tagged #${tag.name}`}
+            >
+              #{tag.name}
+              <span className="ml-1 opacity-70">{tag.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Notes List */}
       <div className="flex-1 overflow-y-auto">
         {notes?.length === 0 && (
           <div className="p-4 text-sm text-muted-foreground text-center">
-            No notes yet. Create one to get started.
+            {activeTagId
+              ? "No notes with this tag."
+              : "No notes yet. Create one to get started."}
           </div>
         )}
         {notes?.map((note) => (
@@ -104,12 +150,12 @@ export function NotesSidebar({ selectedId, onSelect, onClose, onImportClick, onD
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between gap-2">
                   <span className="font-medium truncate text-foreground">
-                    {getTitle(note.content)}
+                    {note.title || "Untitled"}
                   </span>
                   <button
                     onClick={(e) => handleDelete(note._id, e)}
                     className="opacity-0 group-hover:opacity-100 p-1 hover:bg-destructive/20 rounded transition-all"
-                    title="Delete note"
+                    title="Move to trash"
                   >
                     <Trash2 className="w-3 h-3 text-destructive" />
                   </button>
@@ -0,0 +1,408 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpRight,
+  Columns3,
+  Loader2,
+  Save,
+  Table2,
+  Trash2,
+} from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PropertyValueInput } from "./PropertiesEditor";
+import { defaultPropertyValue } from "@/lib/properties";
+import {
+  applyTableView,
+  BASE_COLUMNS,
+  DEFAULT_TABLE_VIEW,
+  getCellValue,
+  getRowProperty,
+  NoteRow,
+  propertyColumn,
+  TableColumn,
+  TableViewDefinition,
+} from "@/lib/note-table";
+
+const FILTER_PLACEHOLDERS: Record<TableColumn["kind"], string> = {
+  text: "Filter",
+  list: "Filter",
+  number: "e.g. > 2",
+  date: "e.g. >= 2024-06",
+  checkbox: "yes / no",
+};
+
+interface NotesTableProps {
+  onOpenNote: (id: Id<"canvasNodes">) => void;
+}
+
+// Spreadsheet-style view over all notes with saved column, sort and filter setups
+export function NotesTable({ onOpenNote }: NotesTableProps) {
+  const rows = useQuery(api.tableViews.listNoteRows);
+  const views = useQuery(api.tableViews.listViews);
+  const propertyKeys = useQuery(api.properties.listPropertyKeys);
+  const createView = useMutation(api.tableViews.createView);
+  const updateView = useMutation(api.tableViews.updateView);
+  const deleteView = useMutation(api.tableViews.deleteView);
+
+  const [activeViewId, setActiveViewId] = useState<Id<"tableViews"> | null>(null);
+  // Unsaved changes to the active view (or to the default view)
+  const [draft, setDraft] = useState<TableViewDefinition | null>(null);
+  const [isNaming, setIsNaming] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [isColumnMenuOpen, setIsColumnMenuOpen] = useState(false);
+
+  const activeView = views?.find((view) => view._id === activeViewId);
+  const definition: TableViewDefinition =
+    draft ?? (activeView
+      ? { columns: activeView.columns, sort: activeView.sort, filters: activeView.filters }
+      : DEFAULT_TABLE_VIEW);
+
+  const allColumns = [
+    ...BASE_COLUMNS,
+    ...(propertyKeys ?? []).map((property) => propertyColumn(property.key, property.type)),
+  ];
+  const visibleColumns = definition.columns
+    .map((id) => allColumns.find((column) => column.id === id))
+    .filter((column) => column !== undefined);
+
+  const visibleRows = rows ? applyTableView([...rows], allColumns, definition) : [];
+
+  // Link properties hold a note title
+  const openTitle = (title: string) => {
+    const key = title.trim().toLowerCase();
+    const match = rows?.find((row) => row.title.toLowerCase() === key);
+    if (match) onOpenNote(match._id);
+  };
+
+  const update = (changes: Partial<TableViewDefinition>) =>
+    setDraft({ ...definition, ...changes });
+
+  const toggleSort = (columnId: string) => {
+    const sort = definition.sort;
+    if (sort?.column !== columnId) {
+      update({ sort: { column: columnId, direction: "asc" } });
+    } else if (sort.direction === "asc") {
+      update({ sort: { column: columnId, direction: "desc" } });
+    } else {
+      update({ sort: undefined });
+    }
+  };
+
+  const setFilter = (columnId: string, value: string) =>
+    update({
+      filters: [
+        ...definition.filters.filter((filter) => filter.column !== columnId),
+        ...(value ? [{ column: columnId, value }] : []),
+      ],
+    });
+
+  const toggleColumn = (columnId: string) =>
+    update({
+      columns: definition.columns.includes(columnId)
+        ? definition.columns.filter((id) => id !== columnId)
+        : [...definition.columns, columnId],
+    });
+
+  const selectView = (id: string) => {
+    setActiveViewId(id === "all" ? null : (id as Id<"tableViews">));
+    setDraft(null);
+  };
+
+  const handleSaveAs = async () => {
+    const name = viewName.trim();
+    if (name) {
+      const id = await createView({ name, ...definition });
+      setActiveViewId(id);
+      setDraft(null);
+    }
+    setViewName("");
+    setIsNaming(false);
+  };
+
+  const handleUpdate = async () => {
+    if (!activeViewId || !draft) return;
+    await updateView({ id: activeViewId, ...draft });
+    setDraft(null);
+  };
+
+  const handleDelete = async () => {
+    if (!activeViewId) return;
+    await deleteView({ id: activeViewId });
+    selectView("all");
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full overflow-hidden bg-background">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-border">
+        <Table2 className="w-4 h-4 text-muted-foreground" />
+        <Select value={activeViewId ?? "all"} onValueChange={selectView}>
+          <SelectTrigger className="w-48 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All notes</SelectItem>
+            {views?.map((view) => (
+              <SelectItem key={view._id} value={view._id}>
+                {view.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {activeViewId && draft && (
+          <button
+            onClick={handleUpdate}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            Update view
+          </button>
+        )}
+        {isNaming ? (
+          <input
+            autoFocus
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            onBlur={handleSaveAs}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSaveAs();
+              if (e.key === "Escape") {
+                setViewName("");
+                setIsNaming(false);
+              }
+            }}
+            placeholder="View name"
+            className="w-40 px-2 py-1 text-sm bg-background border border-border rounded focus:outline-none focus:border-primary"
+          />
+        ) : (
+          <button
+            onClick={() => setIsNaming(true)}
+            className="px-2 py-1 rounded-md text-sm text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            Save as view
+          </button>
+        )}
+        {activeViewId && (
+          <button
+            onClick={handleDelete}
+            className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-muted transition-colors"
+            title="Delete view"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+
+        <div className="relative ml-auto flex items-center gap-3">
+          <span className="text-xs text-muted-foreground">
+            {visibleRows.length} note{visibleRows.length !== 1 ? "s" : ""}
+          </span>
+          <button
+            onClick={() => setIsColumnMenuOpen(!isColumnMenuOpen)}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            <Columns3 className="w-4 h-4" />
+            Columns
+          </button>
+          {isColumnMenuOpen && (
+            <div className="absolute right-0 top-full mt-1 z-20 w-56 max-h-80 overflow-y-auto py-1 bg-card border border-border rounded-lg shadow-lg">
+              {allColumns.map((column) => (
+                <label
+                  key={column.id}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-muted cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={definition.columns.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                    className="accent-primary"
+                  />
+                  <span className="truncate">{column.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="flex-1 overflow-auto">
+        {rows === undefined ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead className="sticky top-0 z-10 bg-card">
+              <tr className="border-b border-border">
+                {visibleColumns.map((column) => (
+                  <th key={column.id} className="px-3 py-2 text-left font-medium text-muted-foreground whitespace-nowrap">
+                    <button
+                      onClick={() => toggleSort(column.id)}
+                      className="flex items-center gap-1 hover:text-foreground transition-colors"
+                    >
+                      {column.name}
+                      {definition.sort?.column === column.id &&
+                        (definition.sort.direction === "asc" ? (
+                          <ArrowUp className="w-3.5 h-3.5" />
+                        ) : (
+                          <ArrowDown className="w-3.5 h-3.5" />
+                        ))}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+              <tr className="border-b border-border">
+                {visibleColumns.map((column) => (
+                  <th key={column.id} className="px-2 py-1">
+                    <input
+                      value={
+                        definition.filters.find((filter) => filter.column === column.id)
+                          ?.value ?? ""
+                      }
+                      onChange={(e) => setFilter(column.id, e.target.value)}
+                      placeholder={FILTER_PLACEHOLDERS[column.kind]}
+                      className="w-full min-w-20 px-2 py-1 text-xs font-normal bg-background border border-border rounded focus:outline-none focus:border-primary"
+                    />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row) => (
+                <tr key={row._id} className="border-b border-border hover:bg-muted/30">
+                  {visibleColumns.map((column) => (
+                    <td key={column.id} className="px-3 py-1 align-middle">
+                      <TableCell
+                        row={row}
+                        column={column}
+                        onOpenNote={onOpenNote}
+                        onOpenTitle={openTitle}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {rows && visibleRows.length === 0 && (
+          <div className="text-center text-sm text-muted-foreground py-12">
+            No notes match these filters
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TableCellProps {
+  row: NoteRow;
+  column: TableColumn;
+  onOpenNote: (id: Id<"canvasNodes">) => void;
+  onOpenTitle: (title: string) => void;
+}
+
+// Titles and properties are edited in place; other columns are derived
+function TableCell({ row, column, onOpenNote, onOpenTitle }: TableCellProps) {
+  const renameNote = useMutation(api.canvas.renameNote);
+  const setProperty = useMutation(api.properties.setProperty);
+
+  // The note may have been trashed meanwhile
+  const handleRename = async (title: string) => {
+    try {
+      await renameNote({ id: row._id, title });
+    } catch (error) {
+      console.error("Failed to rename note:", error);
+    }
+  };
+
+  const handleSetProperty = async (
+    property: Omit<Parameters<typeof setProperty>[0], "nodeId">
+  ) => {
+    try {
+      await setProperty({ nodeId: row._id, ...property });
+    } catch (error) {
+      console.error("Failed to set property:", error);
+    }
+  };
+
+  if (column.id === "title") {
+    return (
+      <div className="group flex items-center gap-1 min-w-48">
+        <input
+          key={row.title}
+          defaultValue={row.title}
+          onBlur={(e) => {
+            const title = e.target.value.trim();
+            if (title && title !== row.title) {
+              handleRename(title);
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+          className="flex-1 min-w-0 px-2 py-1 font-medium bg-transparent rounded hover:bg-muted/50 focus:bg-background focus:outline-none focus:ring-1 focus:ring-ring"
+        />
+        <button
+          onClick={() => onOpenNote(row._id)}
+          className="p-1 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity"
+          title="Open note"
+        >
+          <ArrowUpRight className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  if (column.propertyType) {
+    const property = getRowProperty(row, column);
+    if (!property) {
+      const type = column.propertyType;
+      return (
+        <button
+          onClick={() =>
+            handleSetProperty({
+              key: column.name,
+              type,
+              value: defaultPropertyValue(type),
+            })
+          }
+          className="w-full px-2 py-1 text-left text-muted-foreground/50 hover:text-muted-foreground rounded hover:bg-muted/50 transition-colors"
+        >
+          —
+        </button>
+      );
+    }
+    return (
+      <PropertyValueInput
+        property={property}
+        onChange={(value) =>
+          handleSetProperty({ key: property.key, type: property.type, value })
+        }
+        onLinkClick={onOpenTitle}
+      />
+    );
+  }
+
+  const value = getCellValue(row, column);
+  return (
+    <span className="px-2 text-muted-foreground whitespace-nowrap">
+      {column.kind === "date" && typeof value === "number"
+        ? new Date(value).toLocaleDateString()
+        : String(value ?? "")}
+    </span>
+  );
+}
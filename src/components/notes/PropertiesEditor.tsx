@@ -0,0 +1,282 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import {
+  ArrowUpRight,
+  Calendar,
+  CheckSquare,
+  Hash,
+  Link2,
+  List,
+  Plus,
+  Type,
+  X,
+} from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  defaultPropertyValue,
+  NoteProperty,
+  PROPERTY_TYPES,
+  PropertyType,
+  PropertyValue,
+} from "@/lib/properties";
+
+const TYPE_ICONS: Record<PropertyType, typeof Type> = {
+  text: Type,
+  number: Hash,
+  date: Calendar,
+  checkbox: CheckSquare,
+  link: Link2,
+  list: List,
+};
+
+const inputClass =
+  "w-full px-2 py-1 bg-transparent rounded hover:bg-muted/50 focus:bg-background focus:outline-none focus:ring-1 focus:ring-ring";
+
+interface PropertiesEditorProps {
+  noteId: Id<"canvasNodes">;
+  onLinkClick: (title: string) => void;
+}
+
+// Typed key/value properties shown at the top of a note
+export function PropertiesEditor({ noteId, onLinkClick }: PropertiesEditorProps) {
+  const properties = useQuery(api.properties.getProperties, { nodeId: noteId });
+  const knownKeys = useQuery(api.properties.listPropertyKeys);
+  const setProperty = useMutation(api.properties.setProperty);
+  const removeProperty = useMutation(api.properties.removeProperty);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [newKey, setNewKey] = useState("");
+  const [newType, setNewType] = useState<PropertyType | null>(null);
+
+  if (properties === undefined) return null;
+
+  // Keys used on other notes keep the type they already have
+  const knownType = knownKeys?.find(
+    (k) => k.key.toLowerCase() === newKey.trim().toLowerCase()
+  )?.type;
+  const addType = newType ?? knownType ?? "text";
+
+  const save = (property: NoteProperty) =>
+    setProperty({ nodeId: noteId, ...property });
+
+  const handleAdd = async () => {
+    const key = newKey.trim();
+    if (key && !properties.some((p) => p.key.toLowerCase() === key.toLowerCase())) {
+      await save({ key, type: addType, value: defaultPropertyValue(addType) });
+    }
+    setNewKey("");
+    setNewType(null);
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="mb-6 text-sm">
+      {properties.map((property) => {
+        const Icon = TYPE_ICONS[property.type];
+        return (
+          <div key={property._id} className="group flex items-center gap-2 min-h-8">
+            <div
+              className="w-36 shrink-0 flex items-center gap-2 px-2 text-muted-foreground"
+              title={property.key}
+            >
+              <Icon className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate">{property.key}</span>
+            </div>
+            <div className="flex-1 min-w-0">
+              <PropertyValueInput
+                property={property}
+                onChange={(value) =>
+                  save({ key: property.key, type: property.type, value })
+                }
+                onLinkClick={onLinkClick}
+              />
+            </div>
+            <button
+              onClick={() => removeProperty({ nodeId: noteId, key: property.key })}
+              className="p-1 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity"
+              title="Remove property"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+
+      {isAdding ? (
+        <div className="flex items-center gap-2 mt-1">
+          <input
+            autoFocus
+            list="property-keys"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleAdd();
+              if (e.key === "Escape") {
+                setNewKey("");
+                setIsAdding(false);
+              }
+            }}
+            placeholder="Property name"
+            className="w-36 px-2 py-1 bg-background border border-border rounded focus:outline-none focus:border-primary"
+          />
+          <datalist id="property-keys">
+            {knownKeys?.map((k) => (
+              <option key={k.key} value={k.key} />
+            ))}
+          </datalist>
+          <Select
+            value={addType}
+            onValueChange={(type) => setNewType(type as PropertyType)}
+          >
+            <SelectTrigger className="w-32 h-7 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROPERTY_TYPES.map(({ type, name }) => (
+                <SelectItem key={type} value={type}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <button
+            onClick={handleAdd}
+            disabled={!newKey.trim()}
+            className="px-3 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+          >
+            Add
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Add property
+        </button>
+      )}
+    </div>
+  );
+}
+
+export interface PropertyValueInputProps {
+  property: NoteProperty;
+  onChange: (value: PropertyValue) => void;
+  onLinkClick: (title: string) => void;
+}
+
+// Inputs save on blur (or immediately for checkboxes, dates and list edits).
+// Keyed on the stored value so edits from elsewhere show up.
+export function PropertyValueInput({ property, onChange, onLinkClick }: PropertyValueInputProps) {
+  const { type, value } = property;
+
+  if (type === "checkbox") {
+    return (
+      <input
+        type="checkbox"
+        checked={value === true}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mx-2 accent-primary"
+      />
+    );
+  }
+
+  if (type === "date") {
+    return (
+      <input
+        type="date"
+        value={String(value)}
+        onChange={(e) => e.target.value && onChange(e.target.value)}
+        className={inputClass}
+      />
+    );
+  }
+
+  if (type === "number") {
+    return (
+      <input
+        key={String(value)}
+        type="number"
+        defaultValue={String(value)}
+        onBlur={(e) => {
+          const number = Number(e.target.value);
+          if (e.target.value !== "" && Number.isFinite(number) && number !== value) {
+            onChange(number);
+          }
+        }}
+        className={inputClass}
+      />
+    );
+  }
+
+  if (type === "list") {
+    const items = Array.isArray(value) ? value : [];
+    return (
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1">
+        {items.map((item, index) => (
+          <span
+            key={`${item}-${index}`}
+            className="group/item flex items-center gap-1 px-2 py-0.5 rounded bg-muted/50 text-xs"
+          >
+            {item}
+            <button
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="opacity-0 group-hover/item:opacity-100 text-muted-foreground hover:text-foreground transition-opacity"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          placeholder={items.length === 0 ? "Add item" : ""}
+          onKeyDown={(e) => {
+            const item = e.currentTarget.value.trim();
+            if (e.key === "Enter" && item) {
+              onChange([...items, item]);
+              e.currentTarget.value = "";
+            }
+          }}
+          className="flex-1 min-w-16 bg-transparent focus:outline-none text-xs"
+        />
+      </div>
+    );
+  }
+
+  // Text and link
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        key={String(value)}
+        defaultValue={String(value)}
+        placeholder={type === "link" ? "Note title" : "Empty"}
+        onBlur={(e) => {
+          if (e.target.value !== value) onChange(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        className={`${inputClass} ${type === "link" ? "text-primary" : ""}`}
+      />
+      {type === "link" && value && (
+        <button
+          onClick={() => onLinkClick(String(value))}
+          className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+          title="Open note"
+        >
+          <ArrowUpRight className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
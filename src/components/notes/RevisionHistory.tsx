@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { History, RotateCcw, X, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { contentToLines, diffLines } from "@/lib/diff";
+
+const CURRENT = "current";
+
+interface RevisionHistoryProps {
+  noteId: Id<"canvasNodes">;
+  currentContent: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: (content: string) => void;
+}
+
+export function RevisionHistory({
+  noteId,
+  currentContent,
+  isOpen,
+  onClose,
+  onRestore,
+}: RevisionHistoryProps) {
+  const revisions = useQuery(
+    api.revisions.listRevisions,
+    isOpen ? { nodeId: noteId } : "skip"
+  );
+  const restoreRevision = useMutation(api.revisions.restoreRevision);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Default to the newest revision
+  const baseId = selectedId ?? revisions?.[0]?._id ?? null;
+
+  const getContent = (id: string | null) => {
+    if (id === CURRENT) return currentContent;
+    return revisions?.find((r) => r._id === id)?.content;
+  };
+
+  const baseContent = getContent(baseId);
+  const compareContent = getContent(compareId);
+
+  const diff = useMemo(() => {
+    if (baseContent === undefined || compareContent === undefined) return [];
+    return diffLines(contentToLines(baseContent), contentToLines(compareContent));
+  }, [baseContent, compareContent]);
+  const hasChanges = diff.some((line) => line.type !== "same");
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString();
+
+  const handleRestore = async () => {
+    if (!baseId || baseId === CURRENT) return;
+    setIsRestoring(true);
+    try {
+      const content = await restoreRevision({
+        revisionId: baseId as Id<"nodeRevisions">,
+      });
+      onRestore(content);
+      setSelectedId(null);
+      onClose();
+    } catch (err) {
+      console.error("Failed to restore revision:", err);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-xl w-full max-w-4xl mx-4 h-[80vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version History
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-muted rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {revisions?.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm">
+            No earlier versions yet. Versions are saved as you edit.
+          </div>
+        ) : (
+          <div className="flex-1 flex overflow-hidden">
+            {/* Revision list */}
+            <div className="w-56 border-r border-border overflow-y-auto">
+              {revisions?.map((revision) => (
+                <button
+                  key={revision._id}
+                  onClick={() => setSelectedId(revision._id)}
+                  className={`w-full text-left px-4 py-3 border-b border-border transition-colors ${
+                    baseId === revision._id ? "bg-muted" : "hover:bg-muted/50"
+                  }`}
+                >
+                  <div className="text-sm font-medium truncate">
+                    {revision.title || "Untitled"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDate(revision.createdAt)} · {revision.reason}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border text-sm">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <span>Compare with</span>
+                  <Select value={compareId} onValueChange={setCompareId}>
+                    <SelectTrigger className="w-auto h-7 text-xs gap-1 px-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CURRENT}>Current version</SelectItem>
+                      {revisions?.map((revision) => (
+                        <SelectItem key={revision._id} value={revision._id}>
+                          {formatDate(revision.createdAt)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <button
+                  onClick={handleRestore}
+                  disabled={!baseId || isRestoring}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-primary hover:bg-primary/90 text-primary-foreground disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+                >
+                  {isRestoring ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4" />
+                  )}
+                  Restore this version
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 font-mono text-xs">
+                {!hasChanges && (
+                  <div className="text-muted-foreground">No differences.</div>
+                )}
+                {hasChanges && diff.map((line, i) => (
+                  <div
+                    key={i}
+                    className={`whitespace-pre-wrap px-2 py-0.5 ${
+                      line.type === "added"
+                        ? "bg-[hsl(var(--success))]/15 text-foreground"
+                        : line.type === "removed"
+                          ? "bg-destructive/15 text-foreground line-through decoration-destructive/50"
+                          : "text-muted-foreground"
+                    }`}
+                  >
+                    {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                    {line.text || " "}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
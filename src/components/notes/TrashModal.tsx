@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Trash2, RotateCcw, X, Loader2 } from "lucide-react";
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore?: (id: Id<"canvasNodes">) => void;
+}
+
+export function TrashModal({ isOpen, onClose, onRestore }: TrashModalProps) {
+  const trash = useQuery(api.trash.listTrash, isOpen ? {} : "skip");
+  const restoreNode = useMutation(api.trash.restoreNode);
+  const deleteForever = useMutation(api.trash.deleteForever);
+  const emptyTrash = useMutation(api.trash.emptyTrash);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  const handleRestore = async (id: Id<"canvasNodes">) => {
+    await restoreNode({ id });
+    onRestore?.(id);
+  };
+
+  const handleDeleteForever = async (id: Id<"canvasNodes">) => {
+    if (!confirm("Delete this item forever? This cannot be undone.")) return;
+    await deleteForever({ id });
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm("Delete everything in the trash forever? This cannot be undone.")) {
+      return;
+    }
+    setIsEmptying(true);
+    try {
+      await emptyTrash();
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  const daysLeft = (purgeAt: number) =>
+    Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-xl w-full max-w-md mx-4 max-h-[80vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Trash2 className="w-5 h-5" />
+            Trash
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-muted rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="px-4 pt-3 text-xs text-muted-foreground">
+          Items in the trash are deleted forever after 30 days.
+        </p>
+
+        {/* Trashed items */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {trash === undefined && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {trash?.length === 0 && (
+            <div className="text-center text-sm text-muted-foreground py-6">
+              Trash is empty
+            </div>
+          )}
+          {trash?.map((node) => (
+            <div
+              key={node._id}
+              className="flex items-center gap-3 px-3 py-2 border border-border rounded-lg"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">
+                  {node.title || "Untitled"}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {node.type} · deleted in {daysLeft(node.purgeAt)} days
+                </div>
+              </div>
+              <button
+                onClick={() => handleRestore(node._id)}
+                className="p-1.5 hover:bg-muted rounded transition-colors"
+                title="Restore"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDeleteForever(node._id)}
+                className="p-1.5 hover:bg-destructive/20 rounded transition-colors"
+                title="Delete forever"
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {trash && trash.length > 0 && (
+          <div className="p-4 border-t border-border">
+            <button
+              onClick={handleEmptyTrash}
+              disabled={isEmptying}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-destructive hover:bg-destructive/90 text-white disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-medium transition-colors"
+            >
+              {isEmptying && <Loader2 className="w-4 h-4 animate-spin" />}
+              Empty trash
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
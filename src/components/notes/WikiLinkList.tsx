@@ -10,7 +10,7 @@ import {
 } from "react";
 import { SuggestionKeyDownProps } from "@tiptap/suggestion";
 import { WikiLinkSuggestionItem } from "@/lib/tiptap/wiki-link-suggestion";
-import { FileText, Plus } from "lucide-react";
+import { FileText, Hash, Pilcrow, Plus } from "lucide-react";
 
 interface WikiLinkListProps {
   items: WikiLinkSuggestionItem[];
@@ -29,10 +29,12 @@ export const WikiLinkList = forwardRef<WikiLinkListRef, WikiLinkListProps>(
     const activeItemRef = useRef<HTMLButtonElement>(null);
 
     // Include "create new" option if query doesn't match any existing note exactly
+    // (not for heading or block references, which point into an existing note)
     const hasExactMatch = items.some(
       (item) => item.title.toLowerCase() === query.toLowerCase()
     );
-    const showCreateOption = query.trim() && !hasExactMatch;
+    const isAnchorQuery = /[#^]/.test(query);
+    const showCreateOption = query.trim() && !hasExactMatch && !isAnchorQuery;
     const totalItems = items.length + (showCreateOption ? 1 : 0);
 
     // Reset selection when items change
@@ -102,7 +104,7 @@ export const WikiLinkList = forwardRef<WikiLinkListRef, WikiLinkListProps>(
     if (!totalItems) {
       return (
         <div className="wiki-link-menu bg-card border border-border rounded-lg shadow-lg p-3 text-sm text-muted-foreground">
-          No notes found
+          {isAnchorQuery ? "No headings or blocks found" : "No notes found"}
         </div>
       );
     }
@@ -125,10 +127,21 @@ export const WikiLinkList = forwardRef<WikiLinkListRef, WikiLinkListProps>(
                 isActive ? "bg-muted" : "hover:bg-muted/50"
               }`}
             >
-              <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+              {item.anchor?.kind === "heading" ? (
+                <Hash className="w-4 h-4 text-muted-foreground shrink-0" />
+              ) : item.anchor?.kind === "block" ? (
+                <Pilcrow className="w-4 h-4 text-muted-foreground shrink-0" />
+              ) : (
+                <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+              )}
               <span className="font-medium text-foreground text-sm truncate">
-                {item.title}
+                {item.anchor?.text ?? item.title}
               </span>
+              {item.aliasOf && (
+                <span className="ml-auto text-xs text-muted-foreground truncate">
+                  → {item.aliasOf}
+                </span>
+              )}
             </button>
           );
         })}
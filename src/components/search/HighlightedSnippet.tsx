@@ -0,0 +1,22 @@
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../../convex/_generated/api";
+
+type Snippet = FunctionReturnType<typeof api.search.search>[number]["snippet"];
+
+// Snippet text with the matched words marked
+export function HighlightedSnippet({ snippet }: { snippet: Snippet }) {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  for (const { start, end } of snippet.highlights) {
+    if (start < offset) continue;
+    parts.push(snippet.text.slice(offset, start));
+    parts.push(
+      <mark key={start} className="bg-primary/25 text-foreground rounded-sm px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  }
+  parts.push(snippet.text.slice(offset));
+  return <>{parts}</>;
+}
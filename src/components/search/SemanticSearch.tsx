@@ -2,16 +2,53 @@
 
 import { useState } from "react";
 import { useAction } from "convex/react";
+import { FunctionArgs, FunctionReturnType } from "convex/server";
 import { api } from "../../../convex/_generated/api";
-import { Id } from "../../../convex/_generated/dataModel";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { HighlightedSnippet } from "./HighlightedSnippet";
 
-interface SearchResult {
-  _id: string;
-  content: string;
-  score: number;
-  type: "message" | "node";
-  conversationId?: string; // For messages, to enable navigation
-}
+type SearchResult = FunctionReturnType<typeof api.search.search>[number];
+type SearchFilters = NonNullable<FunctionArgs<typeof api.search.search>["filters"]>;
+type SearchMode = "keyword" | "semantic" | "hybrid";
+type NodeType = Doc<"canvasNodes">["type"];
+type SourceType = NonNullable<Doc<"canvasNodes">["sourceType"]>;
+
+const SEARCH_MODES: { mode: SearchMode; name: string; placeholder: string }[] = [
+  { mode: "keyword", name: "Keyword", placeholder: "Search for exact words..." },
+  { mode: "semantic", name: "Semantic", placeholder: "Search your knowledge semantically..." },
+  { mode: "hybrid", name: "Hybrid", placeholder: "Search by words and meaning..." },
+];
+
+const NODE_TYPES: { type: NodeType; name: string }[] = [
+  { type: "note", name: "Notes" },
+  { type: "text", name: "Text" },
+  { type: "chat_reference", name: "Chat references" },
+];
+
+const SOURCE_TYPES: { source: SourceType; name: string }[] = [
+  { source: "manual", name: "Manual" },
+  { source: "voice", name: "Voice" },
+  { source: "chat", name: "Chat" },
+  { source: "ai_extracted", name: "AI extracted" },
+  { source: "web", name: "Web" },
+  { source: "youtube", name: "YouTube" },
+  { source: "readwise", name: "Readwise" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RANGES: { range: string; name: string; days?: number }[] = [
+  { range: "any", name: "Any time" },
+  { range: "week", name: "Past week", days: 7 },
+  { range: "month", name: "Past month", days: 30 },
+  { range: "year", name: "Past year", days: 365 },
+];
 
 interface SemanticSearchProps {
   onNavigateToMessage?: (conversationId: Id<"conversations">) => void;
@@ -20,45 +57,32 @@ interface SemanticSearchProps {
 
 export function SemanticSearch({ onNavigateToMessage, onNavigateToNode }: SemanticSearchProps) {
   const [query, setQuery] = useState("");
+  const [mode, setMode] = useState<SearchMode>("hybrid");
+  const [nodeType, setNodeType] = useState<NodeType | "all">("all");
+  const [sourceType, setSourceType] = useState<SourceType | "all">("all");
+  const [dateRange, setDateRange] = useState("any");
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
-  const findRelated = useAction(api.embeddings.findRelated);
+  const search = useAction(api.search.search);
 
-  const handleSearch = async () => {
+  // Type and source filters match notes only, so they leave out chat messages
+  const getFilters = (): SearchFilters => {
+    const days = DATE_RANGES.find((r) => r.range === dateRange)?.days;
+    return {
+      types: nodeType === "all" ? undefined : [nodeType],
+      sourceTypes: sourceType === "all" ? undefined : [sourceType],
+      createdAfter: days ? Date.now() - days * DAY_MS : undefined,
+    };
+  };
+
+  const handleSearch = async (searchMode = mode) => {
     if (!query.trim()) return;
 
     setIsSearching(true);
     setIsExpanded(true);
     try {
-      const searchResults = await findRelated({ query, limit: 10 });
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const messageItems = (searchResults.messages as any[])
-        .filter((m) => m !== null)
-        .map((m) => ({
-          _id: m._id as string,
-          content: m.content as string,
-          score: m.score as number,
-          type: "message" as const,
-          conversationId: m.conversationId as string | undefined,
-        }));
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const nodeItems = (searchResults.nodes as any[])
-        .filter((n) => n !== null)
-        .map((n) => ({
-          _id: n._id as string,
-          content: n.content as string,
-          score: n.score as number,
-          type: "node" as const,
-        }));
-
-      const combined: SearchResult[] = [...messageItems, ...nodeItems].sort(
-        (a, b) => b.score - a.score
-      );
-
-      setResults(combined);
+      setResults(await search({ query, mode: searchMode, limit: 10, filters: getFilters() }));
     } catch (error) {
       console.error("Search failed:", error);
     } finally {
@@ -66,6 +90,12 @@ export function SemanticSearch({ onNavigateToMessage, onNavigateToNode }: Semant
     }
   };
 
+  const handleModeChange = (newMode: SearchMode) => {
+    setMode(newMode);
+    // Re-run the current search in the new mode
+    if (query.trim() && results.length > 0) handleSearch(newMode);
+  };
+
   return (
     <div className="bg-card border-b border-border">
       <div className="p-4">
@@ -90,12 +120,27 @@ export function SemanticSearch({ onNavigateToMessage, onNavigateToNode }: Semant
               onChange={(e) => setQuery(e.target.value)}
               onKeyDown={(e) => e.key === "Enter" && handleSearch()}
               onFocus={() => results.length > 0 && setIsExpanded(true)}
-              placeholder="Search your knowledge semantically..."
+              placeholder={SEARCH_MODES.find((m) => m.mode === mode)?.placeholder}
               className="w-full pl-10 pr-4 py-2 bg-secondary border border-input rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent transition-colors text-sm"
             />
           </div>
+          <div className="flex items-center rounded-lg bg-secondary border border-input p-0.5">
+            {SEARCH_MODES.map((m) => (
+              <button
+                key={m.mode}
+                onClick={() => handleModeChange(m.mode)}
+                className={`px-2.5 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                  mode === m.mode
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {m.name}
+              </button>
+            ))}
+          </div>
           <button
-            onClick={handleSearch}
+            onClick={() => handleSearch()}
             disabled={isSearching || !query.trim()}
             className="px-4 py-2 bg-accent hover:bg-accent/90 text-accent-foreground disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
           >
@@ -121,13 +166,56 @@ export function SemanticSearch({ onNavigateToMessage, onNavigateToNode }: Semant
             )}
           </button>
         </div>
+        <div className="flex gap-2 mt-2">
+          <Select value={nodeType} onValueChange={(value) => setNodeType(value as NodeType | "all")}>
+            <SelectTrigger className="w-40 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {NODE_TYPES.map((t) => (
+                <SelectItem key={t.type} value={t.type}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={sourceType}
+            onValueChange={(value) => setSourceType(value as SourceType | "all")}
+          >
+            <SelectTrigger className="w-40 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              {SOURCE_TYPES.map((s) => (
+                <SelectItem key={s.source} value={s.source}>
+                  {s.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={dateRange} onValueChange={setDateRange}>
+            <SelectTrigger className="w-36 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGES.map((r) => (
+                <SelectItem key={r.range} value={r.range}>
+                  {r.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {isExpanded && results.length > 0 && (
         <div className="px-4 pb-4">
           <div className="flex items-center justify-between mb-2">
             <span className="text-xs text-muted-foreground">
-              {results.length} related items found
+              {results.length} {mode === "keyword" ? "matching" : "related"} items found
             </span>
             <button
               onClick={() => setIsExpanded(false)}
@@ -161,12 +249,23 @@ export function SemanticSearch({ onNavigateToMessage, onNavigateToNode }: Semant
                   >
                     {result.type === "message" ? "Chat" : "Note"}
                   </span>
-                  <span className="text-muted-foreground text-xs">
-                    {(result.score * 100).toFixed(0)}% match
+                  {result.title && (
+                    <span className="text-sm font-medium text-foreground truncate">
+                      {result.title}
+                    </span>
+                  )}
+                  <span className="ml-auto shrink-0 text-muted-foreground text-xs">
+                    {[
+                      result.score !== undefined &&
+                        `${(result.score * 100).toFixed(0)}% match`,
+                      result.matchedBy.includes("keyword") && "keyword match",
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
                   </span>
                 </div>
-                <p className="text-sm text-foreground line-clamp-2">
-                  {result.content}
+                <p className="text-sm text-muted-foreground line-clamp-3">
+                  <HighlightedSnippet snippet={result.snippet} />
                 </p>
               </div>
             ))}
@@ -2,7 +2,7 @@
 
 import { useEffect, useRef } from "react";
 import { useEditor } from "@tiptap/react";
-import { convertWikiLinksToHTML } from "@/lib/tiptap/wiki-link";
+import { convertWikiLinksToHTML, WikiLinkAnchor } from "@/lib/tiptap/wiki-link";
 import { setCommandListComponent } from "@/lib/tiptap/slash-commands";
 import { ExtensionKit } from "@/lib/tiptap/extension-kit";
 import { CommandList } from "@/components/notes/CommandList";
@@ -13,7 +13,7 @@ setCommandListComponent(CommandList);
 interface UseNoteEditorOptions {
   initialContent?: string;
   onUpdate?: (content: string) => void;
-  onLinkClick?: (title: string) => void;
+  onLinkClick?: (title: string, anchor: WikiLinkAnchor) => void;
   placeholder?: string;
 }
 
@@ -51,8 +51,8 @@ export const useNoteEditor = ({
         }
       },
       extensions: ExtensionKit({
-        onLinkClick: (title: string) => {
-          onLinkClickRef.current?.(title);
+        onLinkClick: (title: string, anchor: WikiLinkAnchor) => {
+          onLinkClickRef.current?.(title, anchor);
         },
         placeholder,
       }),
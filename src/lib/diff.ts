@@ -0,0 +1,64 @@
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// Convert note content (TipTap HTML or markdown) to plain text lines for diffing
+export function contentToLines(content: string): string[] {
+  const text = content
+    .replace(/<\/(p|h[1-6]|li|blockquote|pre)>/gi, "\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\s*\/?>/gi, "\n---\n")
+    .replace(/<[^>]*>/g, "") // Remove remaining HTML tags
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+  return text
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line, i, lines) => line !== "" || lines[i - 1] !== "");
+}
+
+// Line diff based on the longest common subsequence
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const n = before.length;
+  const m = after.length;
+
+  // lcs[i][j] = LCS length of before[i:] and after[j:]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0)
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      result.push({ type: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: before[i] });
+      i++;
+    } else {
+      result.push({ type: "added", text: after[j] });
+      j++;
+    }
+  }
+  while (i < n) result.push({ type: "removed", text: before[i++] });
+  while (j < m) result.push({ type: "added", text: after[j++] });
+
+  return result;
+}
@@ -0,0 +1,37 @@
+import { Doc } from "../../convex/_generated/dataModel";
+
+export type EdgeKind = NonNullable<Doc<"canvasEdges">["kind"]>;
+
+export interface EdgeKindStyle {
+  kind: EdgeKind;
+  name: string;
+  color: string;
+  dashed?: boolean;
+}
+
+export const EDGE_KINDS: EdgeKindStyle[] = [
+  { kind: "supports", name: "Supports", color: "#16a34a" },
+  { kind: "contradicts", name: "Contradicts", color: "#dc2626" },
+  { kind: "extends", name: "Extends", color: "#2563eb" },
+  { kind: "example-of", name: "Example of", color: "#d97706" },
+  { kind: "question", name: "Question", color: "#9333ea", dashed: true },
+  { kind: "similar", name: "Similar", color: "#64748b", dashed: true },
+];
+
+export function getEdgeKindStyle(kind: EdgeKind | undefined) {
+  return EDGE_KINDS.find((k) => k.kind === kind);
+}
+
+// Label shown on the canvas: the kind, the similarity score, or the free-form label
+export function formatEdgeLabel(edge: {
+  kind?: EdgeKind;
+  score?: number;
+  label?: string;
+}) {
+  const parts = [
+    getEdgeKindStyle(edge.kind)?.name,
+    edge.score !== undefined ? `${Math.round(edge.score * 100)}%` : undefined,
+    edge.label,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : undefined;
+}
@@ -0,0 +1,179 @@
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { PropertyType, PropertyValue } from "./properties";
+
+export type NoteRow = FunctionReturnType<typeof api.tableViews.listNoteRows>[number];
+
+export type ColumnKind = "text" | "number" | "date" | "checkbox" | "list";
+
+export interface TableColumn {
+  id: string; // "title", "backlinks", "property:<key>"...
+  name: string;
+  kind: ColumnKind;
+  propertyType?: PropertyType; // Set for property columns
+}
+
+export interface TableViewDefinition {
+  columns: string[];
+  sort?: { column: string; direction: "asc" | "desc" };
+  filters: { column: string; value: string }[];
+}
+
+export const BASE_COLUMNS: TableColumn[] = [
+  { id: "title", name: "Title", kind: "text" },
+  { id: "createdAt", name: "Created", kind: "date" },
+  { id: "updatedAt", name: "Updated", kind: "date" },
+  { id: "sourceType", name: "Source", kind: "text" },
+  { id: "tags", name: "Tags", kind: "number" },
+  { id: "backlinks", name: "Backlinks", kind: "number" },
+  { id: "links", name: "Links", kind: "number" },
+];
+
+export const DEFAULT_TABLE_VIEW: TableViewDefinition = {
+  columns: BASE_COLUMNS.map((column) => column.id),
+  sort: { column: "updatedAt", direction: "desc" },
+  filters: [],
+};
+
+const PROPERTY_PREFIX = "property:";
+
+export function propertyColumn(key: string, type: PropertyType): TableColumn {
+  return {
+    id: `${PROPERTY_PREFIX}${key.toLowerCase()}`,
+    name: key,
+    kind: type === "link" ? "text" : type,
+    propertyType: type,
+  };
+}
+
+// The property of a row a property column shows, if the row has it
+export function getRowProperty(row: NoteRow, column: TableColumn) {
+  if (!column.id.startsWith(PROPERTY_PREFIX)) return undefined;
+  const key = column.id.slice(PROPERTY_PREFIX.length);
+  return row.properties.find((property) => property.normalizedKey === key);
+}
+
+type CellValue = PropertyValue | null;
+
+export function getCellValue(row: NoteRow, column: TableColumn): CellValue {
+  switch (column.id) {
+    case "title":
+      return row.title;
+    case "createdAt":
+      return row.createdAt;
+    case "updatedAt":
+      return row.updatedAt;
+    case "sourceType":
+      return row.sourceType ?? "manual";
+    case "tags":
+      return row.tagCount;
+    case "backlinks":
+      return row.backlinkCount;
+    case "links":
+      return row.linkCount;
+    default:
+      return getRowProperty(row, column)?.value ?? null;
+  }
+}
+
+// Dates are stored as timestamps (created/updated) or "YYYY-MM-DD" (properties)
+const toDateString = (value: PropertyValue) =>
+  typeof value === "number"
+    ? new Date(value).toISOString().slice(0, 10)
+    : String(value);
+
+/**
+ * Whether a cell passes a column filter. Text and list columns match a
+ * substring; number and date columns take an optional comparison, e.g.
+ * ">= 3" or "< 2024-06-01"; checkbox columns take "yes" or "no".
+ */
+export function matchesColumnFilter(
+  value: CellValue,
+  kind: ColumnKind,
+  filter: string
+) {
+  const query = filter.trim().toLowerCase();
+  if (!query) return true;
+  if (value === null) return false;
+
+  if (kind === "checkbox") {
+    return (value === true) === ["yes", "true", "1", "checked"].includes(query);
+  }
+  if (kind === "text" || kind === "list") {
+    const text = Array.isArray(value) ? value.join(", ") : String(value);
+    return text.toLowerCase().includes(query);
+  }
+
+  const match = query.match(/^(>=|<=|!=|>|<|=)?\s*(.+)$/);
+  if (!match) return true;
+  const op = match[1] ?? "=";
+
+  let left: number | string;
+  let right: number | string;
+  if (kind === "number") {
+    left = Number(value);
+    right = Number(match[2]);
+    if (!Number.isFinite(right)) return true;
+  } else {
+    left = toDateString(value);
+    right = match[2];
+    // A bare date prefix ("2024" or "2024-06") matches the whole period
+    if (op === "=") return left.startsWith(right);
+  }
+
+  switch (op) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case "!=":
+      return left !== right;
+    default:
+      return left === right;
+  }
+}
+
+// Sort comparator; empty cells always sort last
+export function compareCells(a: CellValue, b: CellValue, direction: "asc" | "desc") {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  const left = Array.isArray(a) ? a.join(", ") : a;
+  const right = Array.isArray(b) ? b.join(", ") : b;
+  const result =
+    typeof left === "string" && typeof right === "string"
+      ? left.localeCompare(right)
+      : left < right
+        ? -1
+        : left > right
+          ? 1
+          : 0;
+  return direction === "asc" ? result : -result;
+}
+
+// Apply a view's filters and sort to the rows
+export function applyTableView(
+  rows: NoteRow[],
+  columns: TableColumn[],
+  view: TableViewDefinition
+) {
+  const byId = new Map(columns.map((column) => [column.id, column]));
+
+  const filtered = rows.filter((row) =>
+    view.filters.every(({ column: id, value }) => {
+      const column = byId.get(id);
+      return !column || matchesColumnFilter(getCellValue(row, column), column.kind, value);
+    })
+  );
+
+  const sortColumn = view.sort && byId.get(view.sort.column);
+  if (!view.sort || !sortColumn) return filtered;
+  const direction = view.sort.direction;
+  return filtered.sort((a, b) =>
+    compareCells(getCellValue(a, sortColumn), getCellValue(b, sortColumn), direction)
+  );
+}
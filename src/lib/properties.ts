@@ -0,0 +1,145 @@
+import { Doc } from "../../convex/_generated/dataModel";
+
+export type PropertyType = Doc<"noteProperties">["type"];
+export type PropertyValue = Doc<"noteProperties">["value"];
+
+export interface NoteProperty {
+  key: string;
+  type: PropertyType;
+  value: PropertyValue;
+}
+
+export const PROPERTY_TYPES: { type: PropertyType; name: string }[] = [
+  { type: "text", name: "Text" },
+  { type: "number", name: "Number" },
+  { type: "date", name: "Date" },
+  { type: "checkbox", name: "Checkbox" },
+  { type: "link", name: "Link" },
+  { type: "list", name: "List" },
+];
+
+// Today's date in the "YYYY-MM-DD" form date properties use
+export function todayDateString() {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function defaultPropertyValue(type: PropertyType): PropertyValue {
+  switch (type) {
+    case "number":
+      return 0;
+    case "date":
+      return todayDateString();
+    case "checkbox":
+      return false;
+    case "list":
+      return [];
+    default:
+      return "";
+  }
+}
+
+// Frontmatter keys that map onto tags and aliases instead of properties
+const TAG_KEYS = new Set(["tags", "tag"]);
+const ALIAS_KEYS = new Set(["aliases", "alias"]);
+
+export interface Frontmatter {
+  title?: string;
+  tags: string[];
+  aliases: string[];
+  properties: NoteProperty[];
+  body: string;
+}
+
+const unquote = (text: string) => {
+  const trimmed = text.trim();
+  const quoted = trimmed.match(/^(["'])(.*)\1$/);
+  return quoted ? quoted[2] : trimmed;
+};
+
+// "[[Note]]" -> "Note"
+const unwrapLink = (text: string) => text.match(/^\[\[([^\]]+)\]\]$/)?.[1] ?? text;
+
+// Guess a property from a scalar YAML value
+function scalarProperty(key: string, raw: string): NoteProperty {
+  const text = unquote(raw);
+  const isQuoted = text !== raw.trim();
+
+  if (!isQuoted && /^(true|false)$/i.test(text)) {
+    return { key, type: "checkbox", value: text.toLowerCase() === "true" };
+  }
+  if (!isQuoted && /^-?\d+(\.\d+)?$/.test(text)) {
+    return { key, type: "number", value: Number(text) };
+  }
+  // Dates, including datetimes (the time is dropped)
+  const date = text.match(/^(\d{4}-\d{2}-\d{2})([T ][\d:.]+Z?)?$/);
+  if (date) {
+    return { key, type: "date", value: date[1] };
+  }
+  if (/^\[\[[^\]]+\]\]$/.test(text)) {
+    return { key, type: "link", value: unwrapLink(text) };
+  }
+  return { key, type: "text", value: text };
+}
+
+/**
+ * Split YAML frontmatter off a markdown file. Handles the subset notes use in
+ * practice: scalars, inline [a, b] lists, "- item" lists and | / > blocks.
+ */
+export function parseFrontmatter(markdown: string): Frontmatter {
+  const result: Frontmatter = { tags: [], aliases: [], properties: [], body: markdown };
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return result;
+
+  result.body = markdown.slice(match[0].length).replace(/^\s+/, "");
+  const lines = match[1].split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].match(/^([^\s#][^:]*):(?:\s+(.*))?$/);
+    if (!line) continue;
+
+    const key = line[1].trim();
+    const raw = (line[2] ?? "").trim();
+    let property: NoteProperty;
+
+    if (raw === "" || raw === "|" || raw === ">") {
+      // Indented lines that follow belong to this key
+      const nested: string[] = [];
+      while (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+        nested.push(lines[++i].trim());
+      }
+      if (raw === "" && nested.length > 0 && nested.every((l) => l.startsWith("-"))) {
+        const items = nested.map((l) => unwrapLink(unquote(l.slice(1))));
+        property = { key, type: "list", value: items.filter(Boolean) };
+      } else {
+        property = { key, type: "text", value: nested.join(raw === "|" ? "\n" : " ") };
+      }
+    } else if (/^\[.*\]$/.test(raw) && !/^\[\[[^\]]+\]\]$/.test(raw)) {
+      const items = raw.slice(1, -1).split(",").map((item) => unwrapLink(unquote(item)));
+      property = { key, type: "list", value: items.filter(Boolean) };
+    } else {
+      property = scalarProperty(key, raw);
+    }
+
+    const normalizedKey = key.toLowerCase();
+    const values = Array.isArray(property.value)
+      ? property.value
+      : [String(property.value)];
+
+    if (normalizedKey === "title" && property.type === "text") {
+      result.title = String(property.value);
+    } else if (TAG_KEYS.has(normalizedKey)) {
+      // Tags may also be written "a, b" or "#a #b"
+      result.tags.push(
+        ...values.flatMap((value) => value.split(/[\s,]+/)).filter(Boolean)
+      );
+    } else if (ALIAS_KEYS.has(normalizedKey)) {
+      result.aliases.push(...values.filter(Boolean));
+    } else {
+      result.properties.push(property);
+    }
+  }
+
+  return result;
+}
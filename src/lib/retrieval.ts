@@ -0,0 +1,33 @@
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+
+export type RetrievedContext = FunctionReturnType<typeof api.retrieval.retrieveContext>;
+export type ContextItem = RetrievedContext["items"][number];
+
+// Append retrieved notes to a chat message for the model
+export function appendContext(text: string, items: ContextItem[]): string {
+  if (items.length === 0) return text;
+
+  const hasMentioned = items.some((item) => item.reasons.includes("mentioned"));
+  const hasRetrieved = items.some((item) => !item.reasons.includes("mentioned"));
+  const label =
+    hasMentioned && hasRetrieved
+      ? "Referenced & Related Notes"
+      : hasMentioned
+        ? "Referenced Notes"
+        : "Related Notes (auto-retrieved)";
+
+  const notes = items.map((item) => {
+    if (item.reasons.includes("mentioned")) {
+      return `[Note: ${item.title}]\n${item.content}`;
+    }
+    const match =
+      item.similarity !== undefined
+        ? `${Math.round(item.similarity * 100)}% match`
+        : "keyword match";
+    const title = item.section ? `${item.title} › ${item.section}` : item.title;
+    return `[Related Note (${match}): ${title}]\n${item.content}`;
+  });
+
+  return `${text}\n\n---\n${label}:\n${notes.join("\n\n")}`;
+}
@@ -0,0 +1,135 @@
+import { Extension } from "@tiptap/core";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { convertWikiLinksToHTML, WikiLinkAnchor } from "./wiki-link";
+
+// A block ID is written at the end of a paragraph, heading or list item:
+// "Some thought ^my-id". Links to it look like [[Note^my-id]].
+const blockIdRegex = /\s\^([\w-]+)\s*$/;
+
+export function getBlockId(text: string): string | null {
+  return text.match(blockIdRegex)?.[1] ?? null;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim().toLowerCase();
+
+// Build decorations that dim the ^id marker at the end of each block
+function findBlockIds(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return;
+    const last = node.lastChild;
+    const match = last?.text?.match(blockIdRegex);
+    if (last?.text && match?.index !== undefined) {
+      // Start of the block's last text node, skipping the space before the ^
+      const start = pos + 1 + node.content.size - last.nodeSize;
+      const from = start + match.index + 1;
+      const to = start + last.text.trimEnd().length;
+      decorations.push(Decoration.inline(from, to, { class: "block-id" }));
+    }
+    return false;
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+// Position of the heading or block a link points at, or null if it's gone
+export function findAnchorPosition(
+  doc: ProseMirrorNode,
+  anchor: WikiLinkAnchor
+): number | null {
+  let found: number | null = null;
+
+  doc.descendants((node, pos) => {
+    if (found !== null || !node.isTextblock) return found === null;
+    if (
+      anchor.heading &&
+      node.type.name === "heading" &&
+      normalize(node.textContent) === normalize(anchor.heading)
+    ) {
+      found = pos;
+    } else if (anchor.block && getBlockId(node.textContent) === anchor.block) {
+      found = pos;
+    }
+    return false;
+  });
+
+  return found;
+}
+
+export interface NoteOutline {
+  headings: string[];
+  blocks: { id: string; text: string }[];
+}
+
+// Headings and block IDs of a note's stored content, for link autocomplete
+export function getNoteOutline(content: string): NoteOutline {
+  const html = content.includes("<") ? content : convertWikiLinksToHTML(content);
+  const doc = new DOMParser().parseFromString(html, "text/html");
+
+  const headings = Array.from(doc.querySelectorAll("h1, h2, h3"))
+    .map((element) => element.textContent?.trim() ?? "")
+    .filter(Boolean);
+
+  const blocks: NoteOutline["blocks"] = [];
+  for (const element of Array.from(doc.querySelectorAll("p, h1, h2, h3"))) {
+    const text = element.textContent ?? "";
+    const id = getBlockId(text);
+    if (id) blocks.push({ id, text: text.replace(blockIdRegex, "").trim() });
+  }
+
+  return { headings, blocks };
+}
+
+// A note's content as HTML, or just the section under one heading (up to the
+// next heading of the same or a higher level)
+export function getNoteSection(content: string, heading?: string): string {
+  const html = content.includes("<") ? content : convertWikiLinksToHTML(content);
+  if (!heading) return html;
+
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const elements = Array.from(doc.body.children);
+  const start = elements.findIndex(
+    (element) =>
+      /^H[1-3]$/.test(element.tagName) &&
+      normalize(element.textContent ?? "") === normalize(heading)
+  );
+  if (start === -1) return "";
+
+  const level = Number(elements[start].tagName[1]);
+  const section = [elements[start]];
+  for (const element of elements.slice(start + 1)) {
+    if (/^H[1-3]$/.test(element.tagName) && Number(element.tagName[1]) <= level) {
+      break;
+    }
+    section.push(element);
+  }
+
+  return section.map((element) => element.outerHTML).join("");
+}
+
+/**
+ * Dims ^block-id markers so paragraphs can be linked to with [[Note^block-id]].
+ */
+export const BlockId = Extension.create({
+  name: "blockId",
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey("blockId"),
+        state: {
+          init: (_, { doc }) => findBlockIds(doc),
+          apply: (tr, old) => (tr.docChanged ? findBlockIds(tr.doc) : old),
+        },
+        props: {
+          decorations(state) {
+            return this.getState(state);
+          },
+        },
+      }),
+    ];
+  },
+});
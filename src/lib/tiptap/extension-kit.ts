@@ -6,12 +6,15 @@ import HorizontalRule from "@tiptap/extension-horizontal-rule";
 import Bold from "@tiptap/extension-bold";
 import Italic from "@tiptap/extension-italic";
 import CharacterCount from "@tiptap/extension-character-count";
-import { WikiLink } from "./wiki-link";
+import { WikiLink, WikiLinkAnchor } from "./wiki-link";
 import { SlashCommands } from "./slash-commands";
 import { WikiLinkSuggestion } from "./wiki-link-suggestion";
+import { Hashtag } from "./hashtag";
+import { BlockId } from "./block-id";
+import { NoteEmbed } from "./note-embed";
 
 interface ExtensionKitOptions {
-  onLinkClick?: (title: string) => void;
+  onLinkClick?: (title: string, anchor: WikiLinkAnchor) => void;
   placeholder?: string;
   characterLimit?: number;
   enableWikiLinkSuggestion?: boolean;
@@ -78,6 +81,17 @@ export const ExtensionKit = ({
       onLinkClick,
     }),
 
+    // #tag highlighting (tags are synced from content on save)
+    Hashtag,
+
+    // ![[Note]] embeds of another note's content
+    NoteEmbed.configure({
+      onLinkClick,
+    }),
+
+    // ^block-id markers that [[Note^block-id]] links point at
+    BlockId,
+
     // Slash commands
     SlashCommands,
   ];
@@ -0,0 +1,55 @@
+import { Extension } from "@tiptap/core";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { Node as ProseMirrorNode } from "@tiptap/pm/model";
+
+// Matches #tag preceded by start of text or whitespace (same rule the server uses)
+const hashtagRegex = /(^|\s)(#[a-zA-Z][\w/-]*)/g;
+
+// Build decorations for every #tag in the document
+function findHashtags(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isText || !node.text) return;
+    // Don't style tags inside wiki links or code
+    if (node.marks.some((mark) => mark.type.name === "wikiLink" || mark.type.name === "code")) {
+      return;
+    }
+
+    let match;
+    hashtagRegex.lastIndex = 0;
+    while ((match = hashtagRegex.exec(node.text)) !== null) {
+      const from = pos + match.index + match[1].length;
+      const to = from + match[2].length;
+      decorations.push(Decoration.inline(from, to, { class: "hashtag" }));
+    }
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Highlights #tag syntax in the editor. Tags are stored as plain text and
+ * picked up on save by the server (see convex/lib/tags.ts).
+ */
+export const Hashtag = Extension.create({
+  name: "hashtag",
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey("hashtag"),
+        state: {
+          init: (_, { doc }) => findHashtags(doc),
+          apply: (tr, old) => (tr.docChanged ? findHashtags(tr.doc) : old),
+        },
+        props: {
+          decorations(state) {
+            return this.getState(state);
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,126 @@
+"use client";
+
+import { Node, mergeAttributes, nodeInputRule } from "@tiptap/core";
+import { ReactNodeViewProps, ReactNodeViewRenderer } from "@tiptap/react";
+import { parseWikiLinkTarget, WikiLinkAnchor } from "./wiki-link";
+
+// Input rule regex: matches ![[Note]] or ![[Note#Heading]]
+const noteEmbedInputRuleRegex = /!\[\[([^\]]+)\]\]$/;
+
+// Component will be set dynamically to avoid circular deps (the view renders
+// the embedded note with its own editor)
+let NoteEmbedViewComponent: React.ComponentType<ReactNodeViewProps> | null = null;
+
+export const setNoteEmbedComponent = (
+  component: React.ComponentType<ReactNodeViewProps>
+) => {
+  NoteEmbedViewComponent = component;
+};
+
+export interface NoteEmbedOptions {
+  HTMLAttributes: Record<string, unknown>;
+  onLinkClick?: (title: string, anchor: WikiLinkAnchor) => void;
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    noteEmbed: {
+      setNoteEmbed: (attributes: { title: string; heading?: string }) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Embeds another note (or one of its sections) as live, read-only content.
+ * Stored as a div with data-title so embeds count as links on the server.
+ */
+export const NoteEmbed = Node.create<NoteEmbedOptions>({
+  name: "noteEmbed",
+
+  // Run the ![[...]] input rule before the WikiLink [[...]] rule
+  priority: 200,
+
+  group: "block",
+
+  atom: true,
+
+  draggable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      onLinkClick: undefined,
+    };
+  },
+
+  addAttributes() {
+    return {
+      title: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute("data-title"),
+        renderHTML: (attributes: Record<string, string>) => ({
+          "data-title": attributes.title,
+        }),
+      },
+      heading: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute("data-heading"),
+        renderHTML: (attributes: Record<string, string>) =>
+          attributes.heading ? { "data-heading": attributes.heading } : {},
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-note-embed="true"]',
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const target = node.attrs.heading
+      ? `${node.attrs.title}#${node.attrs.heading}`
+      : node.attrs.title;
+
+    // The ![[...]] text keeps the embed readable outside the editor
+    return [
+      "div",
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        "data-note-embed": "true",
+      }),
+      `![[${target}]]`,
+    ];
+  },
+
+  addCommands() {
+    return {
+      setNoteEmbed:
+        (attributes) =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name, attrs: attributes }),
+    };
+  },
+
+  addInputRules() {
+    return [
+      nodeInputRule({
+        find: noteEmbedInputRuleRegex,
+        type: this.type,
+        getAttributes: (match) => {
+          const { title, heading } = parseWikiLinkTarget(match[1]);
+          return { title, heading };
+        },
+      }),
+    ];
+  },
+
+  addNodeView() {
+    if (!NoteEmbedViewComponent) {
+      console.error("NoteEmbedView component not set");
+      return null;
+    }
+    return ReactNodeViewRenderer(NoteEmbedViewComponent);
+  },
+});
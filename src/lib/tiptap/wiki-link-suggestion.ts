@@ -8,10 +8,14 @@ import Suggestion, {
 import { ReactRenderer } from "@tiptap/react";
 import tippy, { Instance, Props } from "tippy.js";
 import { PluginKey } from "@tiptap/pm/state";
+import { parseWikiLinkTarget } from "./wiki-link";
+import { NoteOutline } from "./block-id";
 
 export interface WikiLinkSuggestionItem {
   id: string;
-  title: string;
+  title: string; // Link target, e.g. "Note" or "Note#Heading"
+  aliasOf?: string; // Canonical note title when this item is an alias
+  anchor?: { kind: "heading" | "block"; text: string };
 }
 
 // Component will be set dynamically to avoid circular deps
@@ -32,6 +36,47 @@ export const setGetNoteTitles = (
   getNoteTitles = fn;
 };
 
+// Function to get a note's headings and block IDs by title - provided by the component
+let getNoteOutline: (title: string) => NoteOutline | null = () => null;
+
+export const setGetNoteOutline = (
+  fn: (title: string) => NoteOutline | null
+) => {
+  getNoteOutline = fn;
+};
+
+// Items for "Note#..." (headings) or "Note^..." (block IDs)
+function getAnchorItems(query: string, anchorIndex: number) {
+  const title = query.slice(0, anchorIndex).trim();
+  const search = query.slice(anchorIndex + 1).trim().toLowerCase();
+  const outline = getNoteOutline(title);
+  if (!outline) return [];
+
+  if (query[anchorIndex] === "#") {
+    return outline.headings
+      .filter((heading) => heading.toLowerCase().includes(search))
+      .slice(0, 10)
+      .map<WikiLinkSuggestionItem>((heading) => ({
+        id: `heading:${heading}`,
+        title: `${title}#${heading}`,
+        anchor: { kind: "heading", text: heading },
+      }));
+  }
+
+  return outline.blocks
+    .filter(
+      (block) =>
+        block.id.toLowerCase().includes(search) ||
+        block.text.toLowerCase().includes(search)
+    )
+    .slice(0, 10)
+    .map<WikiLinkSuggestionItem>((block) => ({
+      id: `block:${block.id}`,
+      title: `${title}^${block.id}`,
+      anchor: { kind: "block", text: block.text || block.id },
+    }));
+}
+
 export const renderWikiLinkSuggestion = () => {
   let component: ReactRenderer | null = null;
   let popup: Instance<Props>[] | null = null;
@@ -122,10 +167,20 @@ export const WikiLinkSuggestion = Extension.create({
             from = end - textBefore.length;
           }
 
+          // "![[" inserts an embed of the note instead of a link
+          const isEmbed = bracketIndex > 0 && textBefore[bracketIndex - 1] === "!";
+          if (isEmbed) from -= 1;
+
           // Delete the [[ and query text, then insert wiki link with proper mark
           const tr = state.tr.deleteRange(from, end);
           view.dispatch(tr);
 
+          if (isEmbed) {
+            const { title, heading } = parseWikiLinkTarget(props.title);
+            editor.chain().focus().setNoteEmbed({ title, heading }).run();
+            return;
+          }
+
           // Insert the wiki link with the wikiLink mark applied, then add a space to exit the mark
           editor
             .chain()
@@ -137,7 +192,7 @@ export const WikiLinkSuggestion = Extension.create({
                 marks: [
                   {
                     type: "wikiLink",
-                    attrs: { title: props.title },
+                    attrs: parseWikiLinkTarget(props.title),
                   },
                 ],
               },
@@ -149,6 +204,12 @@ export const WikiLinkSuggestion = Extension.create({
             .run();
         },
         items: ({ query }: { query: string }) => {
+          // After "Note#" or "Note^", list that note's headings or block IDs
+          const anchorIndex = query.search(/[#^]/);
+          if (anchorIndex > 0) {
+            return getAnchorItems(query, anchorIndex);
+          }
+
           const titles = getNoteTitles();
           const queryLower = query.toLowerCase().trim();
 
@@ -1,18 +1,67 @@
 import { Mark, mergeAttributes, markInputRule } from "@tiptap/core";
 import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { Node as ProseMirrorNode } from "@tiptap/pm/model";
 
 // Input rule regex: matches [[text]] and captures the text inside
 const wikiLinkInputRuleRegex = /\[\[([^\]]+)\]\]$/;
 
+// Part of a note a link points at: [[Note#Heading]] or [[Note^block-id]]
+export interface WikiLinkAnchor {
+  heading?: string;
+  block?: string;
+}
+
+// Split a link target like "Note#Heading" or "Note^block-id" (same rule the server uses)
+export function parseWikiLinkTarget(target: string): { title: string } & WikiLinkAnchor {
+  const match = target.match(/^([^#^]*)(?:#([^^]*))?(?:\^([\w-]+))?$/);
+  if (!match) return { title: target.trim() };
+
+  return {
+    title: match[1].trim(),
+    heading: match[2]?.trim() || undefined,
+    block: match[3],
+  };
+}
+
+// Whether a link target has a note - provided by the note editor
+let isWikiLinkResolved: (title: string) => boolean = () => true;
+
+export const setWikiLinkResolver = (fn: (title: string) => boolean) => {
+  isWikiLinkResolved = fn;
+};
+
+// Dispatch a transaction with this meta to re-check links after notes change
+export const wikiLinkResolverKey = new PluginKey("wikiLinkResolver");
+
+// Decorate links whose target note doesn't exist
+function findUnresolvedLinks(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isText) return;
+    const link = node.marks.find((mark) => mark.type.name === "wikiLink");
+    if (link?.attrs.title && !isWikiLinkResolved(link.attrs.title)) {
+      decorations.push(
+        Decoration.inline(pos, pos + node.nodeSize, {
+          class: "wiki-link-unresolved",
+        })
+      );
+    }
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
 export interface WikiLinkOptions {
   HTMLAttributes: Record<string, unknown>;
-  onLinkClick?: (title: string) => void;
+  onLinkClick?: (title: string, anchor: WikiLinkAnchor) => void;
 }
 
 declare module "@tiptap/core" {
   interface Commands<ReturnType> {
     wikiLink: {
-      setWikiLink: (attributes: { title: string }) => ReturnType;
+      setWikiLink: (attributes: { title: string } & WikiLinkAnchor) => ReturnType;
       unsetWikiLink: () => ReturnType;
     };
   }
@@ -37,6 +86,18 @@ export const WikiLink = Mark.create<WikiLinkOptions>({
           "data-title": attributes.title,
         }),
       },
+      heading: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute("data-heading"),
+        renderHTML: (attributes: Record<string, string>) =>
+          attributes.heading ? { "data-heading": attributes.heading } : {},
+      },
+      block: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute("data-block"),
+        renderHTML: (attributes: Record<string, string>) =>
+          attributes.block ? { "data-block": attributes.block } : {},
+      },
     };
   },
 
@@ -63,8 +124,8 @@ export const WikiLink = Mark.create<WikiLinkOptions>({
   addCommands() {
     return {
       setWikiLink:
-        (attributes: { title: string }) =>
-        ({ commands }: { commands: { setMark: (name: string, attrs: { title: string }) => boolean } }) => {
+        (attributes: { title: string } & WikiLinkAnchor) =>
+        ({ commands }: { commands: { setMark: (name: string, attrs: { title: string } & WikiLinkAnchor) => boolean } }) => {
           return commands.setMark(this.name, attributes);
         },
       unsetWikiLink:
@@ -81,7 +142,7 @@ export const WikiLink = Mark.create<WikiLinkOptions>({
         find: wikiLinkInputRuleRegex,
         type: this.type,
         getAttributes: (match) => {
-          return { title: match[1] };
+          return parseWikiLinkTarget(match[1]);
         },
       }),
     ];
@@ -91,15 +152,36 @@ export const WikiLink = Mark.create<WikiLinkOptions>({
     const onLinkClick = this.options.onLinkClick;
 
     return [
+      new Plugin({
+        key: wikiLinkResolverKey,
+        state: {
+          init: (_, { doc }) => findUnresolvedLinks(doc),
+          apply: (tr, old) =>
+            tr.docChanged || tr.getMeta(wikiLinkResolverKey)
+              ? findUnresolvedLinks(tr.doc)
+              : old,
+        },
+        props: {
+          decorations(state) {
+            return this.getState(state);
+          },
+        },
+      }),
       new Plugin({
         key: new PluginKey("wikiLinkClick"),
         props: {
           handleClick(_view, _pos, event) {
-            const target = event.target as HTMLElement;
-            if (target.hasAttribute("data-wiki-link")) {
+            // Unresolved links wrap their text in a decoration span
+            const target = (event.target as HTMLElement).closest(
+              "[data-wiki-link]"
+            );
+            if (target) {
               const title = target.getAttribute("data-title");
               if (title && onLinkClick) {
-                onLinkClick(title);
+                onLinkClick(title, {
+                  heading: target.getAttribute("data-heading") ?? undefined,
+                  block: target.getAttribute("data-block") ?? undefined,
+                });
                 return true;
               }
             }
@@ -119,7 +201,10 @@ export function extractWikiLinks(content: string): string[] {
   const rawRegex = /\[\[([^\]]+)\]\]/g;
   let match;
   while ((match = rawRegex.exec(content)) !== null) {
-    links.push(match[1]);
+    const { title } = parseWikiLinkTarget(match[1]);
+    if (title && !links.includes(title)) {
+      links.push(title);
+    }
   }
   
   // Also extract from HTML data-title attributes (TipTap saves as HTML)
@@ -133,13 +218,32 @@ export function extractWikiLinks(content: string): string[] {
   return links;
 }
 
+// Escape text for HTML content or attribute values (as the server's escapeHtml does)
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 // Convert plain text with [[links]] to HTML with wiki-link marks
 export function convertWikiLinksToHTML(text: string): string {
-  // First convert wiki links
-  let html = text.replace(
-    /\[\[([^\]]+)\]\]/g,
-    '<span data-wiki-link="true" data-title="$1" class="wiki-link text-primary hover:text-primary/80 cursor-pointer font-medium underline decoration-primary/50 hover:decoration-primary">[[$1]]</span>'
-  );
+  // ![[Note]] on its own line embeds the note
+  let html = text.replace(/^!\[\[([^\]]+)\]\]$/gm, (_, target: string) => {
+    const { title, heading } = parseWikiLinkTarget(target);
+    const anchor = heading ? ` data-heading="${escapeHtml(heading)}"` : "";
+    return `<div data-note-embed="true" data-title="${escapeHtml(title)}"${anchor}>![[${escapeHtml(target)}]]</div>`;
+  });
+
+  // Then convert wiki links
+  html = html.replace(/(?<!!)\[\[([^\]]+)\]\]/g, (_, target: string) => {
+    const { title, heading, block } = parseWikiLinkTarget(target);
+    const anchor =
+      (heading ? ` data-heading="${escapeHtml(heading)}"` : "") +
+      (block ? ` data-block="${block}"` : "");
+    return `<span data-wiki-link="true" data-title="${escapeHtml(title)}"${anchor} class="wiki-link text-primary hover:text-primary/80 cursor-pointer font-medium underline decoration-primary/50 hover:decoration-primary">[[${escapeHtml(target)}]]</span>`;
+  });
   
   // Convert markdown to HTML for TipTap
   // Split into lines and process
@@ -151,6 +255,13 @@ export function convertWikiLinksToHTML(text: string): string {
   for (let i = 0; i < lines.length; i++) {
     let line = lines[i];
     
+    // Embeds were converted above
+    if (line.startsWith('<div data-note-embed')) {
+      if (inList) { processedLines.push(listType === 'ul' ? '</ul>' : '</ol>'); inList = false; listType = null; }
+      processedLines.push(line);
+      continue;
+    }
+
     // Headings
     if (line.startsWith('### ')) {
       if (inList) { processedLines.push(listType === 'ul' ? '</ul>' : '</ol>'); inList = false; listType = null; }